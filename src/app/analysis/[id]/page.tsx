@@ -0,0 +1,32 @@
+// app/analysis/[id]/page.tsx
+import { notFound } from "next/navigation";
+import SharedAnalysisView from "@/app/components/SharedAnalysisView";
+import { getAnalysisStore } from "@/app/utils/analysisStore";
+
+interface AnalysisPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: AnalysisPageProps) {
+  const { id } = await params;
+  const analysis = await getAnalysisStore().get(id);
+  return {
+    title: analysis ? `${analysis.songName} – Music Sentiment & Genre Demo` : "Analysis not found",
+  };
+}
+
+export default async function AnalysisPage({ params }: AnalysisPageProps) {
+  const { id } = await params;
+  const analysis = await getAnalysisStore().get(id);
+  if (!analysis) notFound();
+
+  return (
+    <SharedAnalysisView
+      songName={analysis.songName}
+      artistName={analysis.artistName}
+      predictedGenre={analysis.predictedGenre}
+      serverSegments={analysis.serverSegments}
+      createdAt={analysis.createdAt}
+    />
+  );
+}
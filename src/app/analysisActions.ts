@@ -0,0 +1,35 @@
+'use server';
+import type { ServerSegment } from '@/app/components/SpeakerWithWaves';
+import { getAnalysisStore } from '@/app/utils/analysisStore';
+import { AnalysisError } from '@/app/utils/analysisErrors';
+import { validateGenre, validateSegment } from '@/app/utils/analysisValidation';
+
+// One segment per 3 s covers 100 minutes, far more than the 15 MB upload limit allows.
+const MAX_SHARED_SEGMENTS = 2000;
+
+// Persists a finished analysis and returns the id of its shareable /analysis/[id] page.
+export async function shareAnalysis(analysis: {
+  songName: string;
+  artistName: string;
+  predictedGenre: string | null;
+  serverSegments: ServerSegment[];
+}): Promise<{ id: string }> {
+  // Called straight from the browser, so nothing about the input can be trusted.
+  if (typeof analysis !== 'object' || analysis === null || !Array.isArray(analysis.serverSegments)) {
+    throw new AnalysisError('invalid-payload', 'Shared analysis must include a segment list');
+  }
+  if (analysis.serverSegments.length > MAX_SHARED_SEGMENTS) {
+    throw new AnalysisError('invalid-payload', `Shared analysis can have at most ${MAX_SHARED_SEGMENTS} segments`);
+  }
+  const serverSegments: ServerSegment[] = [];
+  analysis.serverSegments.forEach((segment) =>
+    serverSegments.push(validateSegment(segment, serverSegments[serverSegments.length - 1]))
+  );
+  const record = await getAnalysisStore().save({
+    songName: String(analysis.songName).slice(0, 200),
+    artistName: String(analysis.artistName).slice(0, 200),
+    predictedGenre: analysis.predictedGenre === null ? null : validateGenre(analysis.predictedGenre),
+    serverSegments,
+  });
+  return { id: record.id };
+}
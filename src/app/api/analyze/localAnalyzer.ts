@@ -0,0 +1,185 @@
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import type { AnalysisEvent, GenreScore } from "@/app/utils/analysisStream";
+
+// Built-in stand-in for the Python model server. It derives deterministic sentiment
+// values from a few simple signal features so the site can be developed and demoed offline.
+// The numbers are NOT model predictions.
+
+const SEGMENT_SEC = 3;
+const SUBFRAMES_PER_SEGMENT = 8;
+// Compressed formats are not decoded here; their bytes are read as a pseudo-signal
+// and their duration is estimated from this bitrate.
+const ASSUMED_COMPRESSED_BYTES_PER_SEC = 16000;
+const PSEUDO_SAMPLE_RATE = 8000;
+
+interface DecodedSignal {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Parses PCM / IEEE-float RIFF WAVE data into a mono signal. Returns null for anything else.
+const decodeWav = (buffer: ArrayBuffer): DecodedSignal | null => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 44) return null;
+  const tag = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+  if (tag(0) !== "RIFF" || tag(8) !== "WAVE") return null;
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = tag(offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (chunkId === "fmt ") {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE stores the real format in the sub-format GUID.
+      if (format === 0xfffe && chunkSize >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (chunkId === "data") {
+      const bytesPerSample = bitsPerSample / 8;
+      if (!channels || !sampleRate || ![8, 16, 24, 32].includes(bitsPerSample)) return null;
+      if (format !== 1 && !(format === 3 && bitsPerSample === 32)) return null;
+      const dataSize = Math.min(chunkSize, buffer.byteLength - body);
+      const frameCount = Math.floor(dataSize / (bytesPerSample * channels));
+      const samples = new Float32Array(frameCount);
+      for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let ch = 0; ch < channels; ch++) {
+          const pos = body + (frame * channels + ch) * bytesPerSample;
+          if (format === 3) sum += view.getFloat32(pos, true);
+          else if (bitsPerSample === 8) sum += (view.getUint8(pos) - 128) / 128;
+          else if (bitsPerSample === 16) sum += view.getInt16(pos, true) / 32768;
+          else if (bitsPerSample === 24) {
+            const value = view.getUint8(pos) | (view.getUint8(pos + 1) << 8) | (view.getInt8(pos + 2) << 16);
+            sum += value / 8388608;
+          } else sum += view.getInt32(pos, true) / 2147483648;
+        }
+        samples[frame] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+  return null;
+};
+
+const pseudoSignal = (buffer: ArrayBuffer): DecodedSignal => {
+  const bytes = new Uint8Array(buffer);
+  const durationSec = Math.max(1, bytes.length / ASSUMED_COMPRESSED_BYTES_PER_SEC);
+  const frameCount = Math.floor(durationSec * PSEUDO_SAMPLE_RATE);
+  const samples = new Float32Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    samples[i] = (bytes[Math.floor((i / frameCount) * bytes.length)] - 128) / 128;
+  }
+  return { samples, sampleRate: PSEUDO_SAMPLE_RATE };
+};
+
+const rms = (samples: Float32Array, start: number, end: number) => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return end > start ? Math.sqrt(sum / (end - start)) : 0;
+};
+
+const analyzeWindow = (samples: Float32Array, start: number, end: number) => {
+  const level = rms(samples, start, end);
+  const loudness = clamp01((20 * Math.log10(level + 1e-9) + 60) / 60);
+
+  let crossings = 0;
+  for (let i = start + 1; i < end; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++;
+  }
+  const brightness = clamp01(crossings / Math.max(1, end - start) / 0.25);
+
+  const frameLength = Math.max(1, Math.floor((end - start) / SUBFRAMES_PER_SEGMENT));
+  const frameLevels: number[] = [];
+  for (let i = start; i + frameLength <= end; i += frameLength) {
+    frameLevels.push(rms(samples, i, i + frameLength));
+  }
+  const mean = frameLevels.reduce((a, b) => a + b, 0) / (frameLevels.length || 1);
+  const variance = frameLevels.reduce((a, b) => a + (b - mean) ** 2, 0) / (frameLevels.length || 1);
+  const dynamics = clamp01(Math.sqrt(variance) / (mean + 1e-9));
+
+  return { loudness, brightness, dynamics };
+};
+
+interface Features {
+  loudness: number;
+  brightness: number;
+  dynamics: number;
+}
+
+// Typical feature averages per genre; genres are scored by how close a track's averages are.
+const genrePrototypes: Record<string, Features> = {
+  Metal: { loudness: 0.85, brightness: 0.7, dynamics: 0.3 },
+  Rock: { loudness: 0.8, brightness: 0.35, dynamics: 0.3 },
+  HipHop: { loudness: 0.65, brightness: 0.35, dynamics: 0.6 },
+  EDM: { loudness: 0.65, brightness: 0.55, dynamics: 0.2 },
+  Pop: { loudness: 0.6, brightness: 0.3, dynamics: 0.2 },
+  Jazz: { loudness: 0.45, brightness: 0.45, dynamics: 0.4 },
+  Folk: { loudness: 0.45, brightness: 0.2, dynamics: 0.3 },
+  Classical: { loudness: 0.2, brightness: 0.25, dynamics: 0.5 },
+};
+const TOP_GENRES = 5;
+const GENRE_SPREAD = 0.02;
+
+const rankGenres = (avg: Features): GenreScore[] => {
+  const weights = Object.entries(genrePrototypes).map(([genre, proto]) => {
+    const distance =
+      (avg.loudness - proto.loudness) ** 2 + (avg.brightness - proto.brightness) ** 2 + (avg.dynamics - proto.dynamics) ** 2;
+    return { genre, weight: Math.exp(-distance / GENRE_SPREAD) };
+  });
+  const total = weights.reduce((sum, { weight }) => sum + weight, 0) || 1;
+  return weights
+    .map(({ genre, weight }) => ({ genre, confidence: parseFloat((weight / total).toFixed(3)) }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, TOP_GENRES);
+};
+
+// Analyzes an uploaded file, yielding events in the same order the streaming backend does.
+export async function* analyzeLocally(audio: Blob): AsyncGenerator<AnalysisEvent> {
+  const buffer = await audio.arrayBuffer();
+  const { samples, sampleRate } = decodeWav(buffer) ?? pseudoSignal(buffer);
+  const windowLength = Math.round(SEGMENT_SEC * sampleRate);
+  const totalSegments = Math.max(1, Math.ceil(samples.length / windowLength));
+  const delayMs = Number(process.env.LOCAL_ANALYZER_SEGMENT_DELAY_MS) || 0;
+
+  yield { type: "meta", totalSegments, durationSec: samples.length / sampleRate };
+
+  const totals = { loudness: 0, brightness: 0, dynamics: 0 };
+  for (let i = 0; i < totalSegments; i++) {
+    const start = i * windowLength;
+    const features = analyzeWindow(samples, start, Math.min(samples.length, start + windowLength));
+    totals.loudness += features.loudness;
+    totals.brightness += features.brightness;
+    totals.dynamics += features.dynamics;
+
+    const segment: ServerSegment = {
+      timeSec: i * SEGMENT_SEC,
+      valence: clamp01(0.3 + 0.5 * features.brightness + 0.2 * (1 - features.dynamics)),
+      arousal: clamp01(0.6 * features.loudness + 0.4 * features.dynamics),
+      dominance: clamp01(0.7 * features.loudness + 0.3 * (1 - features.brightness)),
+    };
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+    yield { type: "segment", segment };
+  }
+
+  const topGenres = rankGenres({
+    loudness: totals.loudness / totalSegments,
+    brightness: totals.brightness / totalSegments,
+    dynamics: totals.dynamics / totalSegments,
+  });
+  yield { type: "genre", genre: topGenres[0].genre, topGenres };
+  yield { type: "done" };
+}
@@ -0,0 +1,96 @@
+import { NDJSON_CONTENT_TYPE, AnalysisEvent, encodeEvent, payloadToEvents } from "@/app/utils/analysisStream";
+import { AnalysisError, AnalysisErrorBody, AnalysisErrorKind, kindForStatus } from "@/app/utils/analysisErrors";
+import { validatePayload } from "@/app/utils/analysisValidation";
+import { analyzeLocally } from "./localAnalyzer";
+
+// ANALYSIS_API_URL points at the model server's /analyze endpoint.
+// Leave it unset (or set it to "local") to use the built-in stand-in analyzer.
+const apiUrl = process.env.ANALYSIS_API_URL || "local";
+
+const streamHeaders = {
+  "Content-Type": NDJSON_CONTENT_TYPE,
+  "Cache-Control": "no-cache, no-transform",
+  "X-Accel-Buffering": "no",
+};
+
+const errorResponse = (kind: AnalysisErrorKind, message: string, status: number) => {
+  const body: AnalysisErrorBody = { kind, message };
+  return Response.json(body, { status });
+};
+
+// Prefers FastAPI-style `{ "detail": "..." }` messages over the raw response text.
+const readUpstreamMessage = async (upstream: Response) => {
+  const text = await upstream.text();
+  try {
+    const { detail } = JSON.parse(text);
+    if (typeof detail === "string") return detail;
+  } catch {
+    // Not JSON, fall back to the plain text.
+  }
+  return text.slice(0, 500) || `The analysis server responded with status ${upstream.status}`;
+};
+
+const streamEvents = (events: AsyncIterable<AnalysisEvent>) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for await (const event of events) {
+        controller.enqueue(encoder.encode(encodeEvent(event)));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: streamHeaders });
+};
+
+// Proxies an upload to the analysis server and relays the result as NDJSON events.
+// Servers that already stream NDJSON are passed through untouched; servers that answer
+// with a single JSON payload are converted into the same event sequence.
+export async function POST(request: Request) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return errorResponse("unsupported-audio", "Expected a multipart upload with an audio file", 400);
+  }
+
+  if (apiUrl === "local") {
+    const audio = formData.get("audio");
+    if (!(audio instanceof Blob)) {
+      return errorResponse("unsupported-audio", "No audio file was uploaded", 400);
+    }
+    return streamEvents(analyzeLocally(audio));
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(apiUrl, {
+      method: "POST",
+      body: formData,
+      headers: { Accept: `${NDJSON_CONTENT_TYPE}, application/json` },
+    });
+  } catch (err) {
+    console.error("Analysis server unreachable:", err);
+    return errorResponse("server", "The analysis server is unreachable", 503);
+  }
+
+  if (!upstream.ok) {
+    return errorResponse(
+      kindForStatus(upstream.status),
+      await readUpstreamMessage(upstream),
+      upstream.status >= 500 ? 502 : upstream.status
+    );
+  }
+
+  if (upstream.body && upstream.headers.get("content-type")?.includes(NDJSON_CONTENT_TYPE)) {
+    return new Response(upstream.body, { headers: streamHeaders });
+  }
+
+  try {
+    const payload = validatePayload(await upstream.json());
+    return new Response(payloadToEvents(payload).map(encodeEvent).join(""), { headers: streamHeaders });
+  } catch (err) {
+    const message = err instanceof AnalysisError ? err.message : "The analysis server returned malformed JSON";
+    return errorResponse("invalid-payload", message, 502);
+  }
+}
@@ -0,0 +1,64 @@
+import React from "react";
+import { AnalysisError, AnalysisErrorKind } from "@/app/utils/analysisErrors";
+
+interface AnalysisErrorNoticeProps {
+  error: AnalysisError;
+  onRetry?: () => void;
+  onChooseAnother: () => void;
+  onDismiss: () => void;
+}
+
+const errorCopy: Record<AnalysisErrorKind, { title: string; hint: string; canRetry: boolean }> = {
+  network: {
+    title: "Connection lost",
+    hint: "We couldn't reach the analysis service. Check your internet connection and try again.",
+    canRetry: true,
+  },
+  server: {
+    title: "The analysis server ran into a problem",
+    hint: "This is usually temporary. Try again in a moment.",
+    canRetry: true,
+  },
+  "invalid-payload": {
+    title: "We couldn't read the analysis results",
+    hint: "The server sent back data the app doesn't understand. Trying again may help.",
+    canRetry: true,
+  },
+  "unsupported-audio": {
+    title: "This audio can't be analyzed",
+    hint: "Try a different file, such as an MP3, WAV or FLAC recording.",
+    canRetry: false,
+  },
+};
+
+const AnalysisErrorNotice: React.FC<AnalysisErrorNoticeProps> = ({ error, onRetry, onChooseAnother, onDismiss }) => {
+  const copy = errorCopy[error.kind];
+  return (
+    <div role="alert" className="w-full max-w-md bg-white border border-red-200 rounded-lg shadow p-4 flex flex-col gap-2">
+      <h3 className="font-semibold text-red-600">{copy.title}</h3>
+      <p className="text-sm text-gray-700">{copy.hint}</p>
+      <p className="text-xs text-gray-500">{error.message}</p>
+      <div className="flex gap-3 mt-2">
+        {copy.canRetry && onRetry && (
+          <button
+            onClick={onRetry}
+            className="bg-indigo-600 text-white px-4 py-1 rounded-full hover:bg-indigo-500 transition text-sm"
+          >
+            Try again
+          </button>
+        )}
+        <button
+          onClick={onChooseAnother}
+          className="bg-gray-100 text-gray-800 px-4 py-1 rounded-full hover:bg-gray-200 transition text-sm"
+        >
+          Choose another file
+        </button>
+        <button onClick={onDismiss} className="text-sm text-gray-500 hover:underline ml-auto">
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisErrorNotice;
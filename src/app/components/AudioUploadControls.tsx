@@ -1,17 +1,38 @@
 import React, { ChangeEvent } from "react";
 import Image from "next/image";
-import { FaMicrophone } from "react-icons/fa";
+import { FaMicrophone, FaDesktop, FaBalanceScale, FaListUl, FaFolderOpen } from "react-icons/fa";
 
 interface AudioUploadControlsProps {
   onFileUpload: (e: ChangeEvent<HTMLInputElement>) => void;
   onRecordClick: () => void;
+  // Records audio playing in another tab or on the system.
+  onCaptureClick: () => void;
+  onCompareClick: () => void;
+  onBatchSelect: (files: File[]) => void;
+  preprocess: boolean;
+  onPreprocessChange: (enabled: boolean) => void;
   error?: string | null;
 }
 
-const AudioUploadControls: React.FC<AudioUploadControlsProps> = ({ onFileUpload, onRecordClick, error }) => {
+const AudioUploadControls: React.FC<AudioUploadControlsProps> = ({
+  onFileUpload,
+  onRecordClick,
+  onCaptureClick,
+  onCompareClick,
+  onBatchSelect,
+  preprocess,
+  onPreprocessChange,
+  error,
+}) => {
+  const handleBatchInput = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter((file) => file.type.startsWith("audio/"));
+    e.target.value = "";
+    onBatchSelect(files);
+  };
+
   return (
     <div className="flex flex-col items-center space-y-4 transition-all duration-500">
-      <div className="flex space-x-4">
+      <div className="flex flex-wrap justify-center gap-4">
         <label
           htmlFor="upload-audio"
           className="cursor-pointer bg-indigo-600 text-white px-6 py-3 rounded-full hover:bg-indigo-500 transition flex items-center space-x-2 focus:outline-none focus:ring-2 focus:ring-indigo-300"
@@ -37,7 +58,47 @@ const AudioUploadControls: React.FC<AudioUploadControlsProps> = ({ onFileUpload,
           <FaMicrophone className="h-6 w-6" />
           <span>Record Audio</span>
         </button>
+        <button
+          onClick={onCaptureClick}
+          className="bg-gray-800 text-white px-6 py-3 rounded-full hover:bg-gray-700 transition flex items-center space-x-2 focus:outline-none focus:ring-2 focus:ring-gray-400"
+          aria-label="Capture Tab Audio"
+        >
+          <FaDesktop className="h-6 w-6" />
+          <span>Capture Tab Audio</span>
+        </button>
+      </div>
+      <button
+        onClick={onCompareClick}
+        className="text-indigo-600 hover:underline flex items-center space-x-2 text-sm"
+        aria-label="Compare Two Tracks"
+      >
+        <FaBalanceScale />
+        <span>Compare two tracks</span>
+      </button>
+      <div className="flex space-x-4 text-sm">
+        <label htmlFor="batch-files" className="cursor-pointer text-indigo-600 hover:underline flex items-center space-x-2">
+          <FaListUl />
+          <span>Analyze several files</span>
+        </label>
+        <input id="batch-files" type="file" accept="audio/*" multiple onChange={handleBatchInput} className="hidden" />
+        <label htmlFor="batch-folder" className="cursor-pointer text-indigo-600 hover:underline flex items-center space-x-2">
+          <FaFolderOpen />
+          <span>Analyze a folder</span>
+        </label>
+        <input
+          id="batch-folder"
+          type="file"
+          // Non-standard but supported by every major browser.
+          {...{ webkitdirectory: "" }}
+          multiple
+          onChange={handleBatchInput}
+          className="hidden"
+        />
       </div>
+      <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer">
+        <input type="checkbox" checked={preprocess} onChange={(e) => onPreprocessChange(e.target.checked)} />
+        <span>Convert to compact mono WAV before uploading</span>
+      </label>
       <Image src="/speaker.svg" alt="Speaker" width={120} height={120} className="opacity-50" />
       {error && <div className="mt-4 text-red-500">{error}</div>}
     </div>
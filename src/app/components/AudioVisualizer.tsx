@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useRef } from "react";
+import { decodeAudio } from "@/app/utils/audioPreprocess";
+import { WaveformPeaks, computePeaks, drawWaveform } from "@/app/utils/waveform";
+import { SpectrogramImage, computeSpectrogram } from "@/app/utils/spectrogram";
+import { formatTime } from "@/app/utils/timeFormat";
+
+interface AudioVisualizerProps {
+  audioUrl: string;
+  currentTime: number;
+  onSeek: (timeSec: number) => void;
+}
+
+const CANVAS_WIDTH = 800;
+const WAVEFORM_HEIGHT = 96;
+// Enough peak buckets to stay sharp at the deepest zoom level.
+const PEAK_BUCKETS = 32768;
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32];
+
+// The player remounts between the processing and finished stages; keep the last decode so the
+// same track isn't decoded again. Only one is kept, and only until its URL is revoked, since decoded
+// audio is large.
+let lastDecode: { url: string; buffer: Promise<AudioBuffer> } | null = null;
+
+const decodeUrl = (url: string): Promise<AudioBuffer> => {
+  if (lastDecode?.url !== url) {
+    const buffer = fetch(url)
+      .then((res) => res.blob())
+      .then(decodeAudio);
+    buffer.catch(() => {
+      if (lastDecode?.buffer === buffer) lastDecode = null;
+    });
+    lastDecode = { url, buffer };
+  }
+  return lastDecode.buffer;
+};
+
+// Drops the kept decode of `url`; call it when the URL is revoked so the audio can be freed.
+export const forgetDecodedAudio = (url: string) => {
+  if (lastDecode?.url === url) lastDecode = null;
+};
+
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ audioUrl, currentTime, onSeek }) => {
+  const waveformRef = useRef<HTMLCanvasElement>(null);
+  const spectrogramRef = useRef<HTMLCanvasElement>(null);
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [zoomIndex, setZoomIndex] = useState(0);
+  const [showSpectrogram, setShowSpectrogram] = useState(false);
+  const [spectrogram, setSpectrogram] = useState<SpectrogramImage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBuffer(null);
+    setPeaks(null);
+    setSpectrogram(null);
+    setFailed(false);
+    decodeUrl(audioUrl)
+      .then((decoded) => {
+        if (cancelled) return;
+        setBuffer(decoded);
+        setPeaks(computePeaks(decoded, Math.min(PEAK_BUCKETS, decoded.length)));
+      })
+      .catch((err) => {
+        console.warn("Could not decode audio for the waveform:", err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audioUrl]);
+
+  const duration = buffer?.duration ?? 0;
+  const zoom = ZOOM_LEVELS[zoomIndex];
+  const viewLength = duration / zoom;
+  // When zoomed in, the view follows the playhead.
+  const viewStart = Math.min(Math.max(0, currentTime - viewLength / 2), Math.max(0, duration - viewLength));
+
+  useEffect(() => {
+    if (waveformRef.current && peaks) {
+      drawWaveform(waveformRef.current, peaks, { startSec: viewStart, endSec: viewStart + viewLength });
+    }
+  }, [peaks, viewStart, viewLength]);
+
+  // The spectrogram is computed only once it is first shown.
+  useEffect(() => {
+    if (!showSpectrogram || !buffer || spectrogram) return;
+    const timer = setTimeout(() => setSpectrogram(computeSpectrogram(buffer, { columns: CANVAS_WIDTH })), 0);
+    return () => clearTimeout(timer);
+  }, [showSpectrogram, buffer, spectrogram]);
+
+  useEffect(() => {
+    const canvas = spectrogramRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !spectrogram) return;
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(spectrogram.pixels), spectrogram.width, spectrogram.height), 0, 0);
+  }, [spectrogram, showSpectrogram]);
+
+  const seekFromClick = (e: React.MouseEvent<HTMLDivElement>, start: number, length: number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(start + ((e.clientX - rect.left) / rect.width) * length);
+  };
+
+  const playheadLeft = (start: number, length: number) =>
+    `${Math.min(100, Math.max(0, ((currentTime - start) / (length || 1)) * 100))}%`;
+
+  if (failed) return null;
+
+  return (
+    <div className="w-full max-w-3xl mt-6 bg-white rounded-lg shadow p-4 flex flex-col gap-2">
+      {!buffer && <p className="text-sm text-gray-500 animate-pulse">Loading waveform...</p>}
+      {buffer && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">
+              {formatTime(viewStart)} – {formatTime(viewStart + viewLength)}
+            </span>
+            <div className="ml-auto flex items-center gap-1">
+              <button
+                onClick={() => setZoomIndex((i) => Math.max(0, i - 1))}
+                disabled={zoomIndex === 0}
+                className="w-7 h-7 rounded-full bg-gray-100 hover:bg-gray-200 disabled:opacity-40"
+                aria-label="Zoom out"
+              >
+                −
+              </button>
+              <span className="w-10 text-center text-gray-600">{zoom}×</span>
+              <button
+                onClick={() => setZoomIndex((i) => Math.min(ZOOM_LEVELS.length - 1, i + 1))}
+                disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+                className="w-7 h-7 rounded-full bg-gray-100 hover:bg-gray-200 disabled:opacity-40"
+                aria-label="Zoom in"
+              >
+                +
+              </button>
+              <label className="flex items-center gap-1 ml-3 text-gray-600 cursor-pointer">
+                <input type="checkbox" checked={showSpectrogram} onChange={(e) => setShowSpectrogram(e.target.checked)} />
+                Spectrogram
+              </label>
+            </div>
+          </div>
+          <div className="relative cursor-pointer" onClick={(e) => seekFromClick(e, viewStart, viewLength)}>
+            <canvas ref={waveformRef} width={CANVAS_WIDTH} height={WAVEFORM_HEIGHT} className="w-full h-24 bg-indigo-50 rounded" />
+            <div className="absolute inset-y-0 w-0.5 bg-red-500" style={{ left: playheadLeft(viewStart, viewLength) }} />
+          </div>
+          {showSpectrogram && (
+            <div className="relative cursor-pointer" onClick={(e) => seekFromClick(e, 0, duration)}>
+              {!spectrogram && <p className="text-sm text-gray-500 animate-pulse">Computing spectrogram...</p>}
+              <canvas
+                ref={spectrogramRef}
+                width={spectrogram?.width ?? CANVAS_WIDTH}
+                height={spectrogram?.height ?? 1}
+                className={`w-full h-32 rounded ${spectrogram ? "" : "hidden"}`}
+              />
+              {spectrogram && (
+                <div className="absolute inset-y-0 w-0.5 bg-white" style={{ left: playheadLeft(0, duration) }} />
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AudioVisualizer;
@@ -0,0 +1,267 @@
+import React, { useState, useRef, useEffect, useCallback } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { ServerSegment } from "./SpeakerWithWaves";
+import { analyzeAudio, isCancelled } from "@/app/utils/analysisClient";
+import { AnalysisError } from "@/app/utils/analysisErrors";
+import type { GenreScore } from "@/app/utils/analysisStream";
+import { buildAnalysisForm } from "@/app/utils/audioPreprocess";
+import { saveHistoryEntry, getSaveAudioPreference } from "@/app/utils/historyStore";
+import { SentimentDimension, computeAverages, sentimentDimensions } from "@/app/utils/sentimentHelpers";
+
+export interface BatchResult {
+  file: File;
+  segments: ServerSegment[];
+  genre: string | null;
+  topGenres: GenreScore[] | null;
+}
+
+interface BatchQueueProps {
+  files: File[];
+  preprocess: boolean;
+  onOpenResult: (result: BatchResult) => void;
+  onExit: () => void;
+}
+
+interface BatchItem {
+  id: string;
+  file: File;
+  status: "pending" | "uploading" | "done" | "failed";
+  progress: number;
+  segments: ServerSegment[];
+  genre: string | null;
+  topGenres: GenreScore[] | null;
+  averages: Record<SentimentDimension, number> | null;
+  error: string | null;
+}
+
+type SortKey = "name" | "status" | "genre" | SentimentDimension;
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const statusLabels: Record<BatchItem["status"], string> = {
+  pending: "Pending",
+  uploading: "Analyzing",
+  done: "Done",
+  failed: "Failed",
+};
+
+const toItem = (file: File): BatchItem => ({
+  id: uuidv4(),
+  file,
+  status: "pending",
+  progress: 0,
+  segments: [],
+  genre: null,
+  topGenres: null,
+  averages: null,
+  error: null,
+});
+
+const sortValue = (item: BatchItem, key: SortKey): string | number => {
+  if (key === "name") return item.file.name.toLowerCase();
+  if (key === "status") return Object.keys(statusLabels).indexOf(item.status);
+  if (key === "genre") return item.genre ?? "";
+  return item.averages?.[key] ?? -1;
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ files, preprocess, onOpenResult, onExit }) => {
+  const [items, setItems] = useState<BatchItem[]>(() => files.map(toItem));
+  const [concurrency, setConcurrency] = useState(2);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "name", descending: false });
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // Abort running items and queue them again, so that when effects are re-run on the same
+  // state (as Strict Mode does in development) they start over instead of staying stuck.
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+      setItems((prev) =>
+        prev.map((item) => (item.status === "uploading" ? { ...item, status: "pending", progress: 0 } : item))
+      );
+    };
+  }, []);
+
+  const updateItem = useCallback((id: string, update: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...update } : item)));
+  }, []);
+
+  const analyzeItem = useCallback(async (item: BatchItem, controller: AbortController) => {
+    const { signal } = controller;
+    // An aborted run must not touch the row, which may already belong to a new run.
+    const update = (changes: Partial<BatchItem>) => {
+      if (!signal.aborted) updateItem(item.id, changes);
+    };
+    try {
+      const formData = await buildAnalysisForm(item.file, preprocess);
+      const segments: ServerSegment[] = [];
+      let genre: string | null = null;
+      let topGenres: GenreScore[] | null = null;
+      await analyzeAudio(
+        formData,
+        {
+          onUploadProgress: (fraction) => update({ progress: fraction }),
+          onSegment: (segment) => segments.push(segment),
+          onGenre: (g, scores) => {
+            genre = g;
+            topGenres = scores ?? null;
+          },
+        },
+        { signal }
+      );
+      if (signal.aborted) return;
+      update({ status: "done", segments, genre, topGenres, averages: computeAverages(segments) });
+      saveHistoryEntry({
+        id: uuidv4(),
+        songName: item.file.name,
+        artistName: "Unknown",
+        serverSegments: segments,
+        predictedGenre: genre,
+        topGenres: topGenres ?? undefined,
+        createdAt: Date.now(),
+        audio: getSaveAudioPreference() ? item.file : undefined,
+      }).catch((err) => console.error("Error saving analysis to history:", err));
+    } catch (err) {
+      if (isCancelled(err)) return;
+      update({ status: "failed", error: err instanceof AnalysisError ? err.message : String(err) });
+    } finally {
+      if (controllersRef.current.get(item.id) === controller) controllersRef.current.delete(item.id);
+    }
+  }, [preprocess, updateItem]);
+
+  // Start pending items whenever a slot frees up.
+  useEffect(() => {
+    const running = items.filter((item) => item.status === "uploading").length;
+    const next = items.filter((item) => item.status === "pending").slice(0, Math.max(0, concurrency - running));
+    for (const item of next) {
+      if (controllersRef.current.has(item.id)) continue;
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+      updateItem(item.id, { status: "uploading", progress: 0, error: null });
+      analyzeItem(item, controller);
+    }
+  }, [items, concurrency, analyzeItem, updateItem]);
+
+  const addFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added = Array.from(e.target.files ?? []).filter((file) => file.type.startsWith("audio/"));
+    setItems((prev) => [...prev, ...added.map(toItem)]);
+    e.target.value = "";
+  };
+
+  const retryItem = (id: string) => updateItem(id, { status: "pending", progress: 0, error: null });
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : false }));
+  };
+
+  const sortedItems = [...items].sort((a, b) => {
+    const va = sortValue(a, sort.key);
+    const vb = sortValue(b, sort.key);
+    const order = va < vb ? -1 : va > vb ? 1 : 0;
+    return sort.descending ? -order : order;
+  });
+
+  const doneCount = items.filter((item) => item.status === "done").length;
+  const failedCount = items.filter((item) => item.status === "failed").length;
+
+  const columns: { key: SortKey; label: string }[] = [
+    { key: "name", label: "Track" },
+    { key: "status", label: "Status" },
+    { key: "genre", label: "Genre" },
+    ...sentimentDimensions.map((dimension) => ({ key: dimension, label: dimension })),
+  ];
+
+  return (
+    <div className="flex flex-col gap-4 w-full max-w-5xl mx-auto">
+      <div className="flex flex-wrap items-center gap-4">
+        <h2 className="text-xl font-semibold">Batch analysis</h2>
+        <span className="text-sm text-gray-600">
+          {doneCount} of {items.length} done{failedCount > 0 ? ` · ${failedCount} failed` : ""}
+        </span>
+        <label className="flex items-center gap-2 text-sm text-gray-600 ml-auto">
+          Parallel uploads
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            className="border rounded px-2 py-1"
+          >
+            {CONCURRENCY_OPTIONS.map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="cursor-pointer text-sm text-indigo-600 hover:underline">
+          Add files
+          <input type="file" accept="audio/*" multiple onChange={addFiles} className="hidden" />
+        </label>
+        <button onClick={onExit} className="text-sm text-gray-600 hover:underline">
+          Back to single track
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              {columns.map(({ key, label }) => (
+                <th key={key} className="px-4 py-2">
+                  <button onClick={() => toggleSort(key)} className="capitalize hover:text-gray-800">
+                    {label}
+                    {sort.key === key && (sort.descending ? " ▼" : " ▲")}
+                  </button>
+                </th>
+              ))}
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {sortedItems.map((item) => (
+              <tr
+                key={item.id}
+                onClick={() =>
+                  item.status === "done" && onOpenResult({ file: item.file, segments: item.segments, genre: item.genre, topGenres: item.topGenres })
+                }
+                className={`border-t ${item.status === "done" ? "cursor-pointer hover:bg-indigo-50" : ""}`}
+              >
+                <td className="px-4 py-2 max-w-xs truncate" title={item.file.name}>
+                  {item.file.name}
+                </td>
+                <td className="px-4 py-2">
+                  <span className={item.status === "failed" ? "text-red-600" : ""} title={item.error ?? undefined}>
+                    {statusLabels[item.status]}
+                    {item.status === "uploading" && item.progress < 1 && ` ${Math.round(item.progress * 100)}%`}
+                  </span>
+                </td>
+                <td className="px-4 py-2">{item.genre ?? "—"}</td>
+                {sentimentDimensions.map((dimension) => (
+                  <td key={dimension} className="px-4 py-2">
+                    {item.averages ? item.averages[dimension].toFixed(2) : "—"}
+                  </td>
+                ))}
+                <td className="px-4 py-2 text-right">
+                  {item.status === "failed" && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        retryItem(item.id);
+                      }}
+                      className="text-indigo-600 hover:underline"
+                    >
+                      Retry
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {items.length === 0 && <p className="p-4 text-sm text-gray-500">No audio files were selected.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,180 @@
+import React, { useState, useRef, useEffect } from "react";
+import { ServerSegment } from "./SpeakerWithWaves";
+import TimelineChart from "./TimelineChart";
+import { analyzeAudio, isCancelled } from "@/app/utils/analysisClient";
+import { AnalysisError } from "@/app/utils/analysisErrors";
+import { buildAnalysisForm } from "@/app/utils/audioPreprocess";
+import { CompareAlignment, compareSentiment } from "@/app/utils/sentimentCompare";
+import { sentimentDimensions, getStrokeColor } from "@/app/utils/sentimentHelpers";
+
+interface CompareViewProps {
+  preprocess: boolean;
+  onExit: () => void;
+}
+
+interface CompareTrack {
+  file: File | null;
+  status: "empty" | "ready" | "analyzing" | "done" | "failed";
+  segments: ServerSegment[];
+  genre: string | null;
+  error: string | null;
+}
+
+const emptyTrack: CompareTrack = { file: null, status: "empty", segments: [], genre: null, error: null };
+
+const formatSigned = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+const CompareView: React.FC<CompareViewProps> = ({ preprocess, onExit }) => {
+  const [tracks, setTracks] = useState<[CompareTrack, CompareTrack]>([emptyTrack, emptyTrack]);
+  const [alignment, setAlignment] = useState<CompareAlignment>("normalized");
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateTrack = (index: 0 | 1, update: Partial<CompareTrack>) => {
+    setTracks((prev) => {
+      const next: [CompareTrack, CompareTrack] = [prev[0], prev[1]];
+      next[index] = { ...prev[index], ...update };
+      return next;
+    });
+  };
+
+  const handleFile = (index: 0 | 1) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!file.type.startsWith("audio/")) {
+      updateTrack(index, { ...emptyTrack, error: `"${file.name}" is not an audio file.` });
+      return;
+    }
+    updateTrack(index, { ...emptyTrack, file, status: "ready" });
+  };
+
+  const analyzeTrack = async (index: 0 | 1, file: File, signal: AbortSignal) => {
+    updateTrack(index, { status: "analyzing", segments: [], genre: null, error: null });
+    try {
+      const formData = await buildAnalysisForm(file, preprocess);
+      const segments: ServerSegment[] = [];
+      let genre: string | null = null;
+      await analyzeAudio(
+        formData,
+        {
+          onSegment: (segment) => segments.push(segment),
+          onGenre: (g) => (genre = g),
+        },
+        { signal }
+      );
+      updateTrack(index, { status: "done", segments, genre });
+    } catch (err) {
+      if (isCancelled(err)) return;
+      updateTrack(index, { status: "failed", error: err instanceof AnalysisError ? err.message : String(err) });
+    }
+  };
+
+  const runComparison = () => {
+    const [a, b] = tracks;
+    if (!a.file || !b.file) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    analyzeTrack(0, a.file, controller.signal);
+    analyzeTrack(1, b.file, controller.signal);
+  };
+
+  const [trackA, trackB] = tracks;
+  const analyzing = tracks.some((t) => t.status === "analyzing");
+  const bothDone = trackA.status === "done" && trackB.status === "done";
+  const labels: [string, string] = [trackA.file?.name ?? "Track A", trackB.file?.name ?? "Track B"];
+  const diff = bothDone ? compareSentiment(trackA.segments, trackB.segments, alignment) : null;
+
+  return (
+    <div className="flex flex-col gap-6 w-full max-w-5xl mx-auto items-center">
+      <div className="flex flex-col md:flex-row gap-4 w-full">
+        {([0, 1] as const).map((index) => {
+          const track = tracks[index];
+          return (
+            <div key={index} className="flex-1 bg-white rounded-lg shadow p-4 flex flex-col gap-2">
+              <h3 className="font-semibold">{index === 0 ? "Track A (solid)" : "Track B (dashed)"}</h3>
+              <input type="file" accept="audio/*" onChange={handleFile(index)} disabled={analyzing} />
+              <p className="text-sm text-gray-600">
+                {track.status === "analyzing" && "Analyzing..."}
+                {track.status === "done" && `${track.segments.length} segments · ${track.genre ?? "No genre"}`}
+              </p>
+              {track.error && <p className="text-sm text-red-500">{track.error}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-4">
+        <button
+          onClick={runComparison}
+          disabled={!trackA.file || !trackB.file || analyzing}
+          className="bg-indigo-600 text-white px-6 py-2 rounded-full hover:bg-indigo-500 transition disabled:opacity-50"
+        >
+          {analyzing ? "Analyzing..." : "Compare"}
+        </button>
+        <button onClick={onExit} className="text-sm text-gray-600 hover:underline">
+          Back to single track
+        </button>
+      </div>
+
+      {bothDone && diff && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Align by:</span>
+            {(["normalized", "absolute"] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setAlignment(mode)}
+                className={`px-3 py-1 rounded-full ${
+                  alignment === mode ? "bg-indigo-600 text-white" : "bg-gray-100 hover:bg-gray-200"
+                }`}
+              >
+                {mode === "normalized" ? "Position (0–100%)" : "Time (seconds)"}
+              </button>
+            ))}
+          </div>
+          <TimelineChart
+            animatedSegments={trackA.segments}
+            comparison={{ segments: trackB.segments, alignment, labels }}
+          />
+          <div className="w-full bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-4 text-center">Differences (B − A)</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1">Dimension</th>
+                  <th>Average A</th>
+                  <th>Average B</th>
+                  <th>Delta</th>
+                  <th>Correlation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sentimentDimensions.map((dimension) => (
+                  <tr key={dimension} className="border-t">
+                    <td className="py-2 flex items-center gap-2 capitalize">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: getStrokeColor(dimension) }} />
+                      {dimension}
+                    </td>
+                    <td>{diff[dimension].averageA}</td>
+                    <td>{diff[dimension].averageB}</td>
+                    <td className={diff[dimension].delta >= 0 ? "text-green-600" : "text-red-600"}>
+                      {formatSigned(diff[dimension].delta)}
+                    </td>
+                    <td>{diff[dimension].correlation === null ? "n/a" : diff[dimension].correlation.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {alignment === "absolute" && (
+              <p className="text-xs text-gray-500 mt-2">Correlation covers only the time both tracks share.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,48 @@
+import React, { useState } from "react";
+
+interface EditableTextProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+  label: string;
+}
+
+// Text that turns into an input on click; Enter or blur saves, Escape cancels.
+const EditableText: React.FC<EditableTextProps> = ({ value, onChange, className = "", label }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    const trimmed = draft?.trim();
+    if (trimmed && trimmed !== value) onChange(trimmed);
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+          if (e.key === "Escape") setDraft(null);
+        }}
+        className={`${className} w-full bg-indigo-50 rounded px-1 outline-none focus:ring-2 focus:ring-indigo-300`}
+        aria-label={label}
+      />
+    );
+  }
+
+  return (
+    <p
+      onClick={() => setDraft(value)}
+      className={`${className} cursor-text hover:bg-indigo-50 rounded px-1 -mx-1`}
+      title={`Click to edit ${label.toLowerCase()}`}
+    >
+      {value}
+    </p>
+  );
+};
+
+export default EditableText;
@@ -0,0 +1,91 @@
+import React, { useState, RefObject } from "react";
+import { FaDownload } from "react-icons/fa";
+import {
+  AnalysisResult,
+  segmentsToCsv,
+  resultToJson,
+  exportFileBase,
+  downloadBlob,
+  serializeSvg,
+  svgToPng,
+} from "@/app/utils/exportResults";
+
+interface ExportMenuProps {
+  result: AnalysisResult;
+  // Containers of the rendered charts; the first matching <svg> inside each is exported.
+  timelineRef: RefObject<HTMLDivElement | null>;
+  circleRef: RefObject<HTMLDivElement | null>;
+}
+
+const TIMELINE_SVG_SELECTOR = ".recharts-wrapper > svg.recharts-surface";
+const CIRCLE_SVG_SELECTOR = "svg";
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ result, timelineRef, circleRef }) => {
+  const [open, setOpen] = useState(false);
+  const base = exportFileBase(result.songName);
+
+  const findSvg = (ref: RefObject<HTMLDivElement | null>, selector: string) =>
+    ref.current?.querySelector<SVGSVGElement>(selector) ?? null;
+
+  const exportChart = async (ref: RefObject<HTMLDivElement | null>, selector: string, name: string, format: "png" | "svg") => {
+    const svg = findSvg(ref, selector);
+    if (!svg) return;
+    try {
+      if (format === "svg") {
+        downloadBlob(new Blob([serializeSvg(svg)], { type: "image/svg+xml" }), `${base}-${name}.svg`);
+      } else {
+        downloadBlob(await svgToPng(svg), `${base}-${name}.png`);
+      }
+    } catch (err) {
+      console.error("Error exporting chart:", err);
+    }
+  };
+
+  const items: { label: string; action: () => void }[] = [
+    {
+      label: "Segments (CSV)",
+      action: () => downloadBlob(new Blob([segmentsToCsv(result.segments)], { type: "text/csv" }), `${base}-segments.csv`),
+    },
+    {
+      label: "Full result (JSON)",
+      action: () => downloadBlob(new Blob([resultToJson(result)], { type: "application/json" }), `${base}-analysis.json`),
+    },
+    { label: "Timeline chart (PNG)", action: () => exportChart(timelineRef, TIMELINE_SVG_SELECTOR, "timeline", "png") },
+    { label: "Timeline chart (SVG)", action: () => exportChart(timelineRef, TIMELINE_SVG_SELECTOR, "timeline", "svg") },
+    { label: "Circular chart (PNG)", action: () => exportChart(circleRef, CIRCLE_SVG_SELECTOR, "circle", "png") },
+    { label: "Circular chart (SVG)", action: () => exportChart(circleRef, CIRCLE_SVG_SELECTOR, "circle", "svg") },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="bg-indigo-600 text-white px-4 py-2 rounded-full hover:bg-indigo-500 transition flex items-center space-x-2"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <FaDownload />
+        <span>Export</span>
+      </button>
+      {open && (
+        <div role="menu" className="absolute right-0 mt-2 w-56 bg-white rounded-lg shadow-lg py-1 z-40">
+          {items.map((item) => (
+            <button
+              key={item.label}
+              role="menuitem"
+              onClick={() => {
+                setOpen(false);
+                item.action();
+              }}
+              className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100"
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
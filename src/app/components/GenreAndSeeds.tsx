@@ -1,58 +1,95 @@
-import React from "react";
-import { FaMusic, FaMicrophoneSlash, FaDrum, FaHeadphones, FaGuitar, FaMicrophone } from "react-icons/fa";
-import { GiViolin, GiSaxophone } from "react-icons/gi";
+import React, { useMemo } from "react";
+import { FaMusic, FaMicrophoneSlash, FaDrum, FaHeadphones, FaHeartbeat, FaFire, FaMinusCircle } from "react-icons/fa";
+import { ServerSegment } from "./SpeakerWithWaves";
+import type { GenreScore } from "@/app/utils/analysisStream";
+import { normalizeGenre } from "@/app/utils/genreTaxonomy";
+import { MoodLabel, MoodTag, deriveMoodTags, moodColors } from "@/app/utils/moodTags";
 
 interface GenreAndSeedsProps {
   genre?: string | null;
+  // Ranked alternatives with confidences, when the backend provides them.
+  topGenres?: GenreScore[] | null;
+  // Segments the mood tags are derived from.
+  segments: ServerSegment[];
+  selectedMood?: MoodLabel | null;
+  onSelectMood?: (tag: MoodTag | null) => void;
 }
 
-const genreIconMap: Record<string, React.ElementType> = {
-  Pop: FaMusic,
-  Rock: FaGuitar,
-  HipHop: FaMicrophone,
-  EDM: FaHeadphones,
-  Classical: GiViolin,
-  Jazz: GiSaxophone,
-  Metal: FaDrum,
-  Country: FaGuitar,
-  Blues: FaGuitar,
-  Reggae: FaHeadphones,
-  Punk: FaDrum,
-  RnB: FaMicrophone,
-  Folk: FaGuitar,
+const moodIcons: Record<MoodLabel, React.ElementType> = {
+  Happy: FaMusic,
+  Sad: FaMicrophoneSlash,
+  Excited: FaDrum,
+  Calm: FaHeadphones,
+  Tense: FaHeartbeat,
+  Angry: FaFire,
+  Neutral: FaMinusCircle,
 };
 
-const seeds = [
-  { label: "Happy", icon: FaMusic, color: "text-yellow-500" },
-  { label: "Sad", icon: FaMicrophoneSlash, color: "text-blue-500" },
-  { label: "Excited", icon: FaDrum, color: "text-red-500" },
-  { label: "Calm", icon: FaHeadphones, color: "text-green-500" },
-];
+const GenreAndSeeds: React.FC<GenreAndSeedsProps> = ({ genre, topGenres, segments, selectedMood, onSelectMood }) => {
+  const normalized = genre ? normalizeGenre(genre) : null;
+  const moodTags = useMemo(() => deriveMoodTags(segments), [segments]);
 
-const GenreAndSeeds: React.FC<GenreAndSeedsProps> = ({ genre }) => {
   return (
     <div className="flex flex-col gap-4 h-full">
       <div className="flex-1 bg-white rounded-lg shadow p-6 flex flex-col items-center transition-transform duration-500 hover:scale-105">
         <h3 className="text-xl font-semibold mb-2">Predicted Genre</h3>
-        {genre ? (
+        {normalized ? (
           <div className="flex items-center space-x-3">
-            {React.createElement(genreIconMap[genre] || FaMusic, { className: "text-3xl text-indigo-600" })}
-            <span className="text-2xl font-medium">{genre}</span>
+            {React.createElement(normalized.icon, { className: "text-3xl text-indigo-600" })}
+            <span className="text-2xl font-medium">{normalized.label}</span>
           </div>
         ) : (
           <span className="text-gray-500">No genre predicted</span>
         )}
+        {topGenres && topGenres.length > 1 && (
+          <ol className="w-full mt-4 space-y-2">
+            {topGenres.map(({ genre: label, confidence }, i) => {
+              const entry = normalizeGenre(label);
+              return (
+                <li key={`${label}-${i}`} className="flex items-center gap-2 text-sm">
+                  {React.createElement(entry.icon, { className: "shrink-0 text-gray-500" })}
+                  <span className="w-28 truncate" title={label}>
+                    {entry.label}
+                  </span>
+                  <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${i === 0 ? "bg-indigo-600" : "bg-indigo-300"}`}
+                      style={{ width: `${Math.round(confidence * 100)}%` }}
+                    />
+                  </div>
+                  <span className="w-10 text-right text-gray-600">{Math.round(confidence * 100)}%</span>
+                </li>
+              );
+            })}
+          </ol>
+        )}
       </div>
       <div className="flex-1 bg-white rounded-lg shadow p-6 flex flex-col items-center transition-transform duration-500 hover:scale-105">
         <h3 className="text-xl font-semibold mb-2 text-center">Seeds</h3>
         <div className="flex flex-wrap justify-center gap-2">
-          {seeds.map((seed) => (
-            <div key={seed.label} className="flex items-center space-x-1 bg-gray-100 hover:bg-gray-200 px-3 py-1 rounded-full">
-              {React.createElement(seed.icon, { className: `text-2xl ${seed.color}` })}
-              <span className="font-medium text-lg text-center">{seed.label}</span>
-            </div>
-          ))}
+          {moodTags.map((tag) => {
+            const selected = tag.label === selectedMood;
+            return (
+              <button
+                key={tag.label}
+                onClick={() => onSelectMood?.(selected ? null : tag)}
+                disabled={!onSelectMood}
+                className={`flex items-center space-x-1 px-3 py-1 rounded-full ${
+                  selected ? "bg-indigo-100 ring-2 ring-indigo-400" : "bg-gray-100 hover:bg-gray-200"
+                }`}
+                title={`${Math.round(tag.strength * 100)}% of the track`}
+              >
+                {React.createElement(moodIcons[tag.label], { className: "text-2xl", style: { color: moodColors[tag.label] } })}
+                <span className="font-medium text-lg text-center">{tag.label}</span>
+                <span className="text-sm text-gray-500">{Math.round(tag.strength * 100)}%</span>
+              </button>
+            );
+          })}
+          {moodTags.length === 0 && <span className="text-gray-500">No moods yet</span>}
         </div>
+        {onSelectMood && moodTags.length > 0 && (
+          <p className="text-xs text-gray-500 mt-2 text-center">Click a mood to highlight where it dominates.</p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { motion } from "framer-motion";
+import { FaTrash, FaFileAudio } from "react-icons/fa";
+import {
+  HistoryEntry,
+  listHistoryEntries,
+  deleteHistoryEntry,
+  getStorageEstimate,
+  getSaveAudioPreference,
+  setSaveAudioPreference,
+} from "@/app/utils/historyStore";
+
+interface HistoryDrawerProps {
+  onClose: () => void;
+  onOpenEntry: (entry: HistoryEntry) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ onClose, onOpenEntry }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [saveAudio, setSaveAudio] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listHistoryEntries());
+      setStorage(await getStorageEstimate());
+    } catch (err) {
+      console.error("Error loading history:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setSaveAudio(getSaveAudioPreference());
+    refresh();
+  }, [refresh]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+    } catch (err) {
+      console.error("Error deleting history entry:", err);
+    }
+    refresh();
+  };
+
+  const handleSaveAudioChange = (enabled: boolean) => {
+    setSaveAudio(enabled);
+    setSaveAudioPreference(enabled);
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-end"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <motion.aside
+        className="bg-white w-full max-w-sm h-full shadow-lg flex flex-col"
+        initial={{ x: "100%" }}
+        animate={{ x: 0 }}
+        exit={{ x: "100%" }}
+        transition={{ type: "tween", duration: 0.25 }}
+      >
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-xl font-bold">History</h2>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:underline">
+            Close
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {loading && <p className="text-gray-500 text-sm">Loading...</p>}
+          {!loading && entries.length === 0 && (
+            <p className="text-gray-500 text-sm">Finished analyses will appear here.</p>
+          )}
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-center gap-3 bg-gray-50 hover:bg-gray-100 rounded-lg p-3">
+              <button onClick={() => onOpenEntry(entry)} className="flex-1 text-left min-w-0">
+                <p className="font-semibold truncate">{entry.songName}</p>
+                <p className="text-sm text-gray-600 truncate">
+                  {entry.artistName} · {entry.predictedGenre ?? "No genre"} · {entry.serverSegments.length} segments
+                </p>
+                <p className="text-xs text-gray-400">{new Date(entry.createdAt).toLocaleString()}</p>
+              </button>
+              {entry.audio && <FaFileAudio className="text-indigo-500 shrink-0" title="Audio saved" />}
+              <button
+                onClick={() => handleDelete(entry.id)}
+                className="text-gray-400 hover:text-red-600 shrink-0"
+                aria-label={`Delete ${entry.songName}`}
+              >
+                <FaTrash />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="border-t p-4 space-y-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={saveAudio} onChange={(e) => handleSaveAudioChange(e.target.checked)} />
+            <span>Keep audio with new analyses</span>
+          </label>
+          {storage && (
+            <div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-indigo-600 h-2 rounded-full"
+                  style={{ width: `${Math.min((storage.usage / storage.quota) * 100, 100)}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Using {formatBytes(storage.usage)} of {formatBytes(storage.quota)} available
+              </p>
+            </div>
+          )}
+        </div>
+      </motion.aside>
+    </motion.div>
+  );
+};
+
+export default HistoryDrawer;
@@ -0,0 +1,87 @@
+import React from "react";
+import { MicrophoneError, MicrophoneErrorKind } from "@/app/utils/microphoneErrors";
+
+interface MicrophoneErrorNoticeProps {
+  error: MicrophoneError;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+const errorCopy: Record<MicrophoneErrorKind, { title: string; steps: string[] }> = {
+  denied: {
+    title: "Microphone access is blocked",
+    steps: [
+      "Click the lock or site settings icon next to the address bar and allow the microphone.",
+      "On macOS, also check System Settings → Privacy & Security → Microphone for your browser.",
+      "Reload the page if the browser doesn't ask again.",
+    ],
+  },
+  "not-found": {
+    title: "No microphone found",
+    steps: ["Connect a microphone or headset.", "If one is connected, pick it from the microphone list and try again."],
+  },
+  "in-use": {
+    title: "The microphone couldn't be started",
+    steps: [
+      "Another app or tab may be using it. Close video calls or other recorders.",
+      "Unplug and reconnect the microphone, then try again.",
+    ],
+  },
+  disconnected: {
+    title: "The microphone was disconnected",
+    steps: [
+      "The recording stopped and what was captured so far was kept.",
+      "Reconnect the microphone or pick another one to record again.",
+    ],
+  },
+  "no-audio": {
+    title: "No audio was shared",
+    steps: [
+      "In the sharing dialog, pick a browser tab and turn on “Share tab audio”.",
+      "Sharing a whole screen includes system audio only on Windows and ChromeOS.",
+      "Firefox and Safari can't share audio this way; use Chrome or Edge.",
+    ],
+  },
+  "share-failed": {
+    title: "The shared tab or screen couldn't be recorded",
+    steps: [
+      "Make sure the tab you picked is still open, then share it again.",
+      "On macOS, allow your browser under System Settings → Privacy & Security → Screen Recording.",
+    ],
+  },
+  unsupported: {
+    title: "Recording isn't available",
+    steps: ["This browser can't record audio here. Try a recent Chrome, Firefox, Edge or Safari over HTTPS."],
+  },
+};
+
+const MicrophoneErrorNotice: React.FC<MicrophoneErrorNoticeProps> = ({ error, onRetry, onDismiss }) => {
+  const copy = errorCopy[error.kind];
+  return (
+    <div role="alert" className="w-full bg-white border border-red-200 rounded-lg p-3 flex flex-col gap-2 text-left">
+      <h3 className="font-semibold text-red-600 text-sm">{copy.title}</h3>
+      <ul className="text-xs text-gray-700 list-disc list-inside space-y-1">
+        {copy.steps.map((step) => (
+          <li key={step}>{step}</li>
+        ))}
+      </ul>
+      <div className="flex gap-3">
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="bg-indigo-600 text-white px-3 py-1 rounded-full hover:bg-indigo-500 transition text-xs"
+          >
+            Try again
+          </button>
+        )}
+        {onDismiss && (
+          <button onClick={onDismiss} className="text-xs text-gray-500 hover:underline ml-auto">
+            Dismiss
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MicrophoneErrorNotice;
@@ -1,117 +1,123 @@
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useRecorder, Recording, RecordingSource } from "@/app/hooks/useRecorder";
+import { useInputQuality } from "@/app/hooks/useInputQuality";
+import type { AudioDevices } from "@/app/hooks/useAudioDevices";
+import { InputQualityReport, MIN_DB, SILENCE_WARNING_SEC, QualityVerdict } from "@/app/utils/inputQuality";
+import { trimSilence } from "@/app/utils/audioPreprocess";
+import { MicrophoneError } from "@/app/utils/microphoneErrors";
+import { formatTime } from "@/app/utils/timeFormat";
+import MicrophoneErrorNotice from "./MicrophoneErrorNotice";
+
+// One recording made while the modal was open.
+interface Take extends Recording {
+  id: number;
+  url: string;
+  quality: InputQualityReport;
+}
+
+const verdictStyles: Record<QualityVerdict, string> = {
+  good: "bg-green-100 text-green-700",
+  fair: "bg-amber-100 text-amber-700",
+  poor: "bg-red-100 text-red-700",
+};
+
+// Meter position for a dBFS value.
+const dbToPercent = (db: number) => Math.max(0, Math.min(100, ((db - MIN_DB) / -MIN_DB) * 100));
+
+const formatDb = (db: number) => (db <= MIN_DB ? "-∞" : db.toFixed(1));
 
 interface RecordModalProps {
   onClose: () => void;
-  onRecordingComplete: (url: string) => void;
-  mics: MediaDeviceInfo[];
-  selectedMic: string | null;
-  setSelectedMic: (id: string) => void;
+  // Where to record from; defaults to the microphone.
+  source?: RecordingSource;
+  // Called with the take the user chose to analyze.
+  onRecordingComplete: (audio: Blob) => void;
+  // Starts a recording that is analyzed while it runs instead of after stopping.
+  onStartLive?: () => void;
+  devices: AudioDevices;
 }
 
 const RecordModal: React.FC<RecordModalProps> = ({
   onClose,
+  source = "microphone",
   onRecordingComplete,
-  mics,
-  selectedMic,
-  setSelectedMic,
+  onStartLive,
+  devices,
 }) => {
-  const [isRecording, setIsRecording] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
-  const [audioLevel, setAudioLevel] = useState(0);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
-  const chunksRef = useRef<BlobPart[]>([]);
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [selectedTakeId, setSelectedTakeId] = useState<number | null>(null);
+  const [trim, setTrim] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [accessError, setAccessError] = useState<MicrophoneError | null>(null);
+  const nextTakeIdRef = useRef(1);
+  // Preview URLs to revoke when the modal closes
+  const takeUrlsRef = useRef(new Set<string>());
 
-  const startRecording = async () => {
-    try {
-      const constraints = { audio: selectedMic ? { deviceId: { exact: selectedMic } } : true };
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      mediaStreamRef.current = stream;
-      const mimeType = MediaRecorder.isTypeSupported("audio/webm;codecs=opus")
-        ? "audio/webm;codecs=opus"
-        : "audio/webm";
-      const recorder = new MediaRecorder(stream, { mimeType });
-      mediaRecorderRef.current = recorder;
-      chunksRef.current = [];
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunksRef.current.push(e.data);
-        }
-      };
-      recorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: mimeType });
-        const url = URL.createObjectURL(blob);
-        onRecordingComplete(url);
-        stopAudioLevelMonitor();
+  const isMicrophone = source === "microphone";
+  const recorder = useRecorder({
+    source,
+    deviceId: devices.selectedMic,
+    onComplete: (recording) => {
+      const take = {
+        ...recording,
+        id: nextTakeIdRef.current++,
+        url: URL.createObjectURL(recording.blob),
+        quality: quality.getReport(),
       };
+      takeUrlsRef.current.add(take.url);
+      setTakes((prev) => [...prev, take]);
+      setSelectedTakeId(take.id);
+    },
+  });
+  const isRecording = recorder.status !== "idle";
+  const isPaused = recorder.status === "paused";
+  const quality = useInputQuality(recorder.stream, recorder.status === "recording");
+  const selectedTake = takes.find((take) => take.id === selectedTakeId) ?? null;
 
-      const audioContext = new AudioContext();
-      const source = audioContext.createMediaStreamSource(stream);
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      source.connect(analyser);
-      analyserRef.current = analyser;
-      monitorAudioLevel();
-
-      recorder.start();
-      setIsRecording(true);
-    } catch (error) {
-      console.error("Error starting recording:", error);
-    }
-  };
+  useEffect(() => {
+    const urls = takeUrlsRef.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-    }
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach((track) => track.stop());
-    }
-    setIsRecording(false);
+  const micError = recorder.error ?? accessError;
+  // Before access is granted, browsers list devices without names.
+  const needsAccess = isMicrophone && devices.permission !== "granted" && devices.mics.every((mic) => !mic.label);
+
+  const startRecording = async () => {
+    setAccessError(null);
+    // Labels become available once the first recording has been allowed.
+    if ((await recorder.start()) && isMicrophone) devices.refresh();
   };
 
-  const pauseResumeRecording = () => {
-    if (!mediaRecorderRef.current) return;
-    if (isPaused) {
-      mediaRecorderRef.current.resume();
-      setIsPaused(false);
-    } else {
-      mediaRecorderRef.current.pause();
-      setIsPaused(true);
-    }
+  const requestAccess = async () => {
+    recorder.clearError();
+    setAccessError(await devices.requestAccess());
   };
 
-  const toggleMute = () => {
-    if (mediaStreamRef.current) {
-      const newMuted = !isMuted;
-      mediaStreamRef.current.getAudioTracks().forEach((track) => {
-        track.enabled = !newMuted;
-      });
-      setIsMuted(newMuted);
-    }
+  const discardTake = (id: number) => {
+    const take = takes.find((t) => t.id === id);
+    if (!take) return;
+    URL.revokeObjectURL(take.url);
+    takeUrlsRef.current.delete(take.url);
+    const remaining = takes.filter((t) => t.id !== id);
+    setTakes(remaining);
+    if (selectedTakeId === id) setSelectedTakeId(remaining.length ? remaining[remaining.length - 1].id : null);
   };
 
-  const monitorAudioLevel = useCallback(() => {
-    if (!analyserRef.current) return;
-    const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-    analyserRef.current.getByteTimeDomainData(dataArray);
-    let sum = 0;
-    for (let i = 0; i < dataArray.length; i++) {
-      const normalized = (dataArray[i] - 128) / 128;
-      sum += Math.abs(normalized);
+  const analyzeTake = async (take: Take) => {
+    if (!trim) {
+      onRecordingComplete(take.blob);
+      return;
     }
-    const avg = sum / dataArray.length;
-    setAudioLevel(avg);
-    animationFrameRef.current = requestAnimationFrame(monitorAudioLevel);
-  }, []);
-
-  const stopAudioLevelMonitor = () => {
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
+    setSubmitting(true);
+    try {
+      onRecordingComplete(await trimSilence(take.blob));
+    } catch (err) {
+      console.warn("Could not trim silence, using the untrimmed take:", err);
+      onRecordingComplete(take.blob);
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -121,15 +127,6 @@ const RecordModal: React.FC<RecordModalProps> = ({
     }
   };
 
-  useEffect(() => {
-    return () => {
-      stopAudioLevelMonitor();
-      if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach((track) => track.stop());
-      }
-    };
-  }, []);
-
   return (
     <AnimatePresence>
       <motion.div
@@ -145,51 +142,199 @@ const RecordModal: React.FC<RecordModalProps> = ({
           animate={{ scale: 1, opacity: 1 }}
           exit={{ scale: 0.8, opacity: 0 }}
         >
-          <h2 className="text-xl font-bold mb-4">Record Audio</h2>
-          {mics.length > 1 && (
-            <select
-              value={selectedMic || ""}
-              onChange={(e) => setSelectedMic(e.target.value)}
-              className="border rounded px-2 py-1 w-full mb-4"
-            >
-              {mics.map((mic) => (
-                <option key={mic.deviceId} value={mic.deviceId}>
-                  {mic.label || `Microphone ${mic.deviceId}`}
-                </option>
-              ))}
-            </select>
+          <h2 className="text-xl font-bold mb-4">{isMicrophone ? "Record Audio" : "Capture Tab Audio"}</h2>
+          {!isMicrophone ? (
+            <p className="mb-4 text-sm text-gray-600">
+              Pick the tab or screen that is playing music and turn on audio sharing. Only the sound is recorded.
+            </p>
+          ) : needsAccess ? (
+            <div className="mb-4 text-sm text-gray-600">
+              {devices.permission === "denied"
+                ? "Microphone access is blocked for this site."
+                : "Allow microphone access to choose between your microphones."}
+              {devices.permission !== "denied" && (
+                <button onClick={requestAccess} className="block mt-1 text-indigo-600 hover:underline">
+                  Allow microphone access
+                </button>
+              )}
+            </div>
+          ) : (
+            devices.mics.length > 0 && (
+              <div className="mb-4">
+                <select
+                  value={devices.selectedMic || ""}
+                  onChange={(e) => devices.selectMic(e.target.value)}
+                  disabled={isRecording}
+                  className="border rounded px-2 py-1 w-full disabled:opacity-60"
+                >
+                  {devices.mics.map((mic, i) => (
+                    <option key={mic.deviceId} value={mic.deviceId}>
+                      {mic.label || `Microphone ${i + 1}`}
+                    </option>
+                  ))}
+                </select>
+                {devices.usingFallback && (
+                  <p className="mt-1 text-xs text-amber-600">
+                    Your preferred microphone isn&apos;t connected, so another one is used.
+                  </p>
+                )}
+              </div>
+            )
+          )}
+          {micError && (
+            <div className="mb-4">
+              <MicrophoneErrorNotice
+                error={micError}
+                onRetry={micError.kind === "disconnected" ? undefined : startRecording}
+                onDismiss={() => {
+                  recorder.clearError();
+                  setAccessError(null);
+                }}
+              />
+            </div>
+          )}
+          {!isRecording && selectedTake && (
+            <div className="flex flex-col space-y-3 mb-4">
+              <audio key={selectedTake.url} src={selectedTake.url} controls className="w-full" />
+              <div className="text-sm">
+                <p className="flex items-center gap-2">
+                  <span className={`px-2 rounded-full text-xs font-semibold capitalize ${verdictStyles[selectedTake.quality.verdict]}`}>
+                    {selectedTake.quality.verdict} levels
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    Peak {formatDb(selectedTake.quality.peakDb)} · RMS {formatDb(selectedTake.quality.averageRmsDb)} dBFS
+                  </span>
+                </p>
+                {selectedTake.quality.issues.length > 0 && (
+                  <ul className="mt-1 text-xs text-gray-600 list-disc list-inside">
+                    {selectedTake.quality.issues.map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={trim} onChange={(e) => setTrim(e.target.checked)} />
+                Trim leading and trailing silence
+              </label>
+              <button
+                onClick={() => analyzeTake(selectedTake)}
+                disabled={submitting}
+                className="w-full px-4 py-2 rounded-full bg-green-600 hover:bg-green-500 text-white transition disabled:opacity-50"
+              >
+                {submitting ? "Trimming…" : `Analyze Take ${selectedTake.id}`}
+              </button>
+              <button
+                onClick={() => discardTake(selectedTake.id)}
+                className="w-full px-4 py-2 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 transition"
+              >
+                Discard Take
+              </button>
+              {takes.length > 1 && (
+                <ul className="border rounded divide-y text-sm max-h-40 overflow-y-auto">
+                  {takes.map((take) => (
+                    <li key={take.id}>
+                      <button
+                        onClick={() => setSelectedTakeId(take.id)}
+                        className={`w-full flex justify-between px-3 py-2 hover:bg-gray-50 ${
+                          take.id === selectedTake.id ? "bg-indigo-50 font-semibold" : ""
+                        }`}
+                      >
+                        <span>
+                          Take {take.id}{" "}
+                          <span className={`px-1.5 rounded-full text-xs capitalize ${verdictStyles[take.quality.verdict]}`}>
+                            {take.quality.verdict}
+                          </span>
+                        </span>
+                        <span className="text-gray-500">{formatTime(take.durationSec)}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
           )}
           <div className="flex flex-col items-center space-y-3">
+            {isRecording && (
+              <p className={`text-2xl font-mono ${isPaused ? "text-gray-400" : "text-gray-800"}`}>
+                {formatTime(recorder.elapsedSec)}
+                <span className="text-sm text-gray-500"> / {formatTime(recorder.maxDurationSec)}</span>
+                {isPaused && <span className="text-sm text-gray-500"> · paused</span>}
+              </p>
+            )}
             <button
-              onClick={isRecording ? stopRecording : startRecording}
+              onClick={isRecording ? recorder.stop : startRecording}
               className={`w-full px-4 py-2 rounded-full transition ${
                 isRecording ? "bg-red-600 hover:bg-red-500 animate-pulse" : "bg-green-600 hover:bg-green-500"
               } text-white`}
             >
-              {isRecording ? "Stop Recording" : "Start Recording"}
+              {isRecording
+                ? "Stop Recording"
+                : takes.length
+                  ? "Re-record"
+                  : isMicrophone
+                    ? "Start Recording"
+                    : "Choose Tab & Start"}
             </button>
+            {!isRecording && takes.length === 0 && isMicrophone && onStartLive && (
+              <button
+                onClick={onStartLive}
+                className="w-full px-4 py-2 rounded-full bg-indigo-600 hover:bg-indigo-500 text-white transition"
+              >
+                Analyze Live While Recording
+              </button>
+            )}
             {isRecording && (
               <button
-                onClick={pauseResumeRecording}
+                onClick={isPaused ? recorder.resume : recorder.pause}
                 className="w-full px-4 py-2 rounded-full bg-blue-600 hover:bg-blue-500 text-white transition"
               >
                 {isPaused ? "Resume Recording" : "Pause Recording"}
               </button>
             )}
-            {isRecording && (
+            {isRecording && isMicrophone && (
               <button
-                onClick={toggleMute}
+                onClick={recorder.toggleMute}
                 className="w-full px-4 py-2 rounded-full bg-gray-800 hover:bg-gray-700 text-white transition"
               >
-                {isMuted ? "Unmute Mic" : "Mute Mic"}
+                {recorder.isMuted ? "Unmute Mic" : "Mute Mic"}
               </button>
             )}
             {isRecording && (
-              <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-                <div
-                  className="bg-green-500 h-2 rounded-full"
-                  style={{ width: `${Math.min(audioLevel * 150, 100)}%` }}
-                />
+              <div className="w-full flex flex-col gap-1 mt-2">
+                <div className="flex items-center gap-2">
+                  <div className="relative flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+                    <div
+                      className="bg-green-500 h-2 rounded-full"
+                      style={{ width: `${dbToPercent(quality.level.rmsDb)}%` }}
+                    />
+                    <div
+                      className="absolute top-0 h-2 w-0.5 bg-gray-700"
+                      style={{ left: `${dbToPercent(quality.level.peakDb)}%` }}
+                    />
+                  </div>
+                  <button
+                    onClick={quality.clearClip}
+                    title="Clip indicator, click to reset"
+                    className={`text-xs font-bold px-1.5 rounded ${
+                      quality.clipHeld ? "bg-red-600 text-white" : "bg-gray-200 text-gray-400"
+                    }`}
+                  >
+                    CLIP
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 font-mono">
+                  Peak {formatDb(quality.level.peakDb)} dBFS · RMS {formatDb(quality.level.rmsDb)} dBFS
+                </p>
+                {quality.clipHeld && (
+                  <p className="text-xs text-red-600">The input is clipping. Lower the gain or move away from the mic.</p>
+                )}
+                {quality.silentSec >= SILENCE_WARNING_SEC && (
+                  <p className="text-xs text-amber-600">
+                    No signal for {Math.floor(quality.silentSec)} s.{" "}
+                    {isMicrophone ? "Is the right microphone selected and unmuted?" : "Is the shared tab playing?"}
+                  </p>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useRef } from "react";
+import { decodeAudio, encodeWav, sliceAudioBuffer } from "@/app/utils/audioPreprocess";
+import { WaveformPeaks, computePeaks, drawWaveform } from "@/app/utils/waveform";
+import { formatTime } from "@/app/utils/timeFormat";
+
+interface RegionSelectorProps {
+  audio: Blob;
+  // Called with the audio to analyze and where it starts in the original track.
+  onAnalyze: (audio: Blob, offsetSec: number) => void;
+  onCancel: () => void;
+}
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 120;
+const HANDLE_GRAB_PX = 8;
+const MIN_SELECTION_SEC = 1;
+
+const RegionSelector: React.FC<RegionSelectorProps> = ({ audio, onAnalyze, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [decodeFailed, setDecodeFailed] = useState(false);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const dragRef = useRef<{ handle: "start" | "end"; anchor: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeAudio(audio)
+      .then((decoded) => {
+        if (cancelled) return;
+        setBuffer(decoded);
+        setPeaks(computePeaks(decoded, CANVAS_WIDTH));
+        setSelection({ start: 0, end: decoded.duration });
+      })
+      .catch((err) => {
+        console.warn("Could not decode audio for trimming:", err);
+        if (!cancelled) setDecodeFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audio]);
+
+  useEffect(() => {
+    if (canvasRef.current && peaks) drawWaveform(canvasRef.current, peaks);
+  }, [peaks]);
+
+  const duration = buffer?.duration ?? 0;
+
+  const timeAtPointer = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return Math.min(duration, Math.max(0, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const rect = containerRef.current!.getBoundingClientRect();
+    const pxPerSec = rect.width / duration;
+    const t = timeAtPointer(e.clientX);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (Math.abs(t - selection.start) * pxPerSec <= HANDLE_GRAB_PX) {
+      dragRef.current = { handle: "start", anchor: selection.end };
+    } else if (Math.abs(t - selection.end) * pxPerSec <= HANDLE_GRAB_PX) {
+      dragRef.current = { handle: "end", anchor: selection.start };
+    } else {
+      // Start a fresh selection at the pointer.
+      dragRef.current = { handle: "end", anchor: t };
+      setSelection({ start: t, end: t });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    const t = timeAtPointer(e.clientX);
+    const { anchor } = dragRef.current;
+    setSelection({ start: Math.min(anchor, t), end: Math.max(anchor, t) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    setSelection((prev) => (prev.end - prev.start < MIN_SELECTION_SEC ? { start: 0, end: duration } : prev));
+  };
+
+  const analyzeSelection = () => {
+    if (!buffer) return;
+    onAnalyze(encodeWav(sliceAudioBuffer(buffer, selection.start, selection.end)), selection.start);
+  };
+
+  const isFullTrack = selection.start <= 0 && selection.end >= duration;
+
+  return (
+    <div className="w-full max-w-3xl bg-white rounded-lg shadow p-6 flex flex-col gap-4">
+      <h2 className="text-xl font-semibold">Select the part to analyze</h2>
+      {!buffer && !decodeFailed && <p className="text-gray-500 animate-pulse">Loading waveform...</p>}
+      {decodeFailed && (
+        <p className="text-sm text-gray-600">This format can&apos;t be previewed here, but the full track can still be analyzed.</p>
+      )}
+      {buffer && (
+        <>
+          <div
+            ref={containerRef}
+            className="relative w-full select-none cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <canvas ref={canvasRef} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} className="w-full h-28 bg-indigo-50 rounded" />
+            <div
+              className="absolute inset-y-0 left-0 bg-gray-500 bg-opacity-40 rounded-l"
+              style={{ width: `${(selection.start / duration) * 100}%` }}
+            />
+            <div
+              className="absolute inset-y-0 right-0 bg-gray-500 bg-opacity-40 rounded-r"
+              style={{ width: `${((duration - selection.end) / duration) * 100}%` }}
+            />
+            {(["start", "end"] as const).map((edge) => (
+              <div
+                key={edge}
+                className="absolute inset-y-0 w-1 -ml-0.5 bg-indigo-600 cursor-ew-resize"
+                style={{ left: `${(selection[edge] / duration) * 100}%` }}
+              />
+            ))}
+          </div>
+          <p className="text-sm text-gray-600">
+            {formatTime(selection.start)} – {formatTime(selection.end)} ({formatTime(selection.end - selection.start)} of{" "}
+            {formatTime(duration)}). Drag on the waveform to choose a range.
+          </p>
+        </>
+      )}
+      <div className="flex gap-3">
+        {buffer && !isFullTrack && (
+          <button
+            onClick={analyzeSelection}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-full hover:bg-indigo-500 transition"
+          >
+            Analyze selection
+          </button>
+        )}
+        <button
+          onClick={() => onAnalyze(audio, 0)}
+          className="bg-gray-100 text-gray-800 px-4 py-2 rounded-full hover:bg-gray-200 transition"
+        >
+          Analyze full track
+        </button>
+        <button onClick={onCancel} className="text-sm text-red-600 hover:underline ml-auto">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RegionSelector;
@@ -0,0 +1,51 @@
+import React, { useState } from "react";
+import { FaShareAlt } from "react-icons/fa";
+import { shareAnalysis } from "@/app/analysisActions";
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+
+interface ShareButtonProps {
+  songName: string;
+  artistName: string;
+  predictedGenre: string | null;
+  serverSegments: ServerSegment[];
+}
+
+const ShareButton: React.FC<ShareButtonProps> = (analysis) => {
+  const [status, setStatus] = useState<"idle" | "saving" | "copied" | "error">("idle");
+  const [link, setLink] = useState<string | null>(null);
+
+  const handleShare = async () => {
+    setStatus("saving");
+    try {
+      const url = link ?? `${window.location.origin}/analysis/${(await shareAnalysis(analysis)).id}`;
+      setLink(url);
+      await navigator.clipboard?.writeText(url).catch(() => undefined);
+      setStatus("copied");
+    } catch (err) {
+      console.error("Error sharing analysis:", err);
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {link && (
+        <a href={link} target="_blank" rel="noreferrer" className="text-sm text-indigo-600 hover:underline truncate max-w-xs">
+          {link}
+        </a>
+      )}
+      {status === "copied" && <span className="text-sm text-green-600">Link copied</span>}
+      {status === "error" && <span className="text-sm text-red-600">Could not create a link</span>}
+      <button
+        onClick={handleShare}
+        disabled={status === "saving"}
+        className="bg-white text-indigo-600 border border-indigo-600 px-4 py-2 rounded-full hover:bg-indigo-50 transition flex items-center space-x-2 disabled:opacity-50"
+      >
+        <FaShareAlt />
+        <span>{status === "saving" ? "Saving..." : "Share"}</span>
+      </button>
+    </div>
+  );
+};
+
+export default ShareButton;
@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import SpeakerWithWaves, { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import TimelineChart from "@/app/components/TimelineChart";
+import TrajectoryChart from "@/app/components/TrajectoryChart";
+import StatisticsPanel from "@/app/components/StatisticsPanel";
+import GenreAndSeeds from "@/app/components/GenreAndSeeds";
+import { MoodTag, moodColors } from "@/app/utils/moodTags";
+
+interface SharedAnalysisViewProps {
+  songName: string;
+  artistName: string;
+  predictedGenre: string | null;
+  serverSegments: ServerSegment[];
+  createdAt: number;
+}
+
+// Read-only version of the finished stage, rendered from a stored analysis.
+const SharedAnalysisView: React.FC<SharedAnalysisViewProps> = ({
+  songName,
+  artistName,
+  predictedGenre,
+  serverSegments,
+  createdAt,
+}) => {
+  const [selectedMood, setSelectedMood] = useState<MoodTag | null>(null);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-gradient-to-r from-blue-50 to-indigo-50">
+      <h1 className="text-3xl font-bold mb-2">{songName}</h1>
+      <p className="text-gray-600 mb-1">{artistName}</p>
+      <p className="text-sm text-gray-400 mb-8">Analyzed {new Date(createdAt).toLocaleDateString()}</p>
+      <div className="flex flex-col gap-8 w-full max-w-5xl mx-auto items-center">
+        <SpeakerWithWaves stage="finished" animatedSegments={serverSegments} songName={songName} artistName={artistName} />
+        <div className="flex flex-col md:flex-row gap-8 items-stretch">
+          <div className="flex flex-col gap-8 md:w-1/3 items-center">
+            <GenreAndSeeds
+              genre={predictedGenre || undefined}
+              segments={serverSegments}
+              selectedMood={selectedMood?.label}
+              onSelectMood={setSelectedMood}
+            />
+          </div>
+          <div className="md:w-2/3 flex justify-center w-full">
+            <TimelineChart
+              animatedSegments={serverSegments}
+              highlight={selectedMood ? { ranges: selectedMood.ranges, color: moodColors[selectedMood.label] } : undefined}
+            />
+          </div>
+        </div>
+        <TrajectoryChart segments={serverSegments} />
+        <StatisticsPanel segments={serverSegments} />
+      </div>
+      <Link
+        href="/"
+        className="mt-8 bg-indigo-600 text-white px-6 py-3 rounded-full hover:bg-indigo-500 transition"
+      >
+        Analyze your own music
+      </Link>
+    </div>
+  );
+};
+
+export default SharedAnalysisView;
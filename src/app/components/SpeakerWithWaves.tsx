@@ -2,7 +2,8 @@ import React, { useState, useEffect } from "react";
 import Image from "next/image";
 import MusicNote from "./MusicNote";
 import { v4 as uuidv4 } from "uuid";
-import { shuffleArray, getRGB, getStrokeColor, generateSmoothPath } from "@/app/utils/sentimentHelpers";
+import { shuffleArray, getRGB, getStrokeColor, generateSmoothPath, segmentIndexAt } from "@/app/utils/sentimentHelpers";
+import { usePlayback } from "@/app/context/PlaybackContext";
 import { FaMusic } from "react-icons/fa";
 import { MdMusicNote } from "react-icons/md";
 import { IconType } from "react-icons";
@@ -33,6 +34,22 @@ interface SpeakerWithWavesProps {
 }
 const noteTypes: IconType[] = [FaMusic, MdMusicNote];
 
+// Ring sector covering segment `index` of `count`, matching the angles used for the chart points.
+const sectorPath = (index: number, count: number, innerR: number, outerR: number): string => {
+  const start = ((index - 0.5) / count) * 2 * Math.PI - Math.PI / 2;
+  const end = ((index + 0.5) / count) * 2 * Math.PI - Math.PI / 2;
+  const largeArc = end - start > Math.PI ? 1 : 0;
+  const point = (r: number, a: number) => `${r * Math.cos(a)} ${r * Math.sin(a)}`;
+  return [
+    `M ${point(innerR, start)}`,
+    `L ${point(outerR, start)}`,
+    `A ${outerR} ${outerR} 0 ${largeArc} 1 ${point(outerR, end)}`,
+    `L ${point(innerR, end)}`,
+    `A ${innerR} ${innerR} 0 ${largeArc} 0 ${point(innerR, start)}`,
+    "Z",
+  ].join(" ");
+};
+
 const SpeakerWithWaves: React.FC<SpeakerWithWavesProps> = ({ stage, animatedSegments, songName, artistName }) => {
   // Sentiment shuffling state
   const sentiments: ("valence" | "arousal" | "dominance")[] = ["valence", "arousal", "dominance"];
@@ -71,9 +88,17 @@ const SpeakerWithWaves: React.FC<SpeakerWithWavesProps> = ({ stage, animatedSegm
     return () => clearInterval(noteInterval);
   }, [stage]);
 
+  // Highlight the sector of the segment currently playing
+  const { currentTime } = usePlayback();
+  const playingIndex =
+    currentTime === null || animatedSegments.length < 2 ? -1 : segmentIndexAt(animatedSegments, currentTime);
+
   const renderCircularAreaChart = () => {
     return (
       <svg width={400} height={400} viewBox="-200 -200 400 400" className="absolute">
+        {playingIndex >= 0 && (
+          <path d={sectorPath(playingIndex, animatedSegments.length, 70, 140)} fill="rgba(239, 68, 68, 0.15)" />
+        )}
         {shuffledSentiments.map(({ sentiment, opacity }) => {
           const points = animatedSegments.map((seg, i) => {
             const angle = (i / (animatedSegments.length || 1)) * 2 * Math.PI - Math.PI / 2;
@@ -0,0 +1,150 @@
+import React, { useState, useMemo } from "react";
+import { ServerSegment } from "./SpeakerWithWaves";
+import { usePlaybackControls } from "@/app/context/PlaybackContext";
+import { computeSentimentStats, dimensionPairs } from "@/app/utils/sentimentStats";
+import { sentimentDimensions, getStrokeColor } from "@/app/utils/sentimentHelpers";
+import { formatTime } from "@/app/utils/timeFormat";
+
+interface StatisticsPanelProps {
+  segments: ServerSegment[];
+}
+
+const formatSigned = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ segments }) => {
+  const { seek } = usePlaybackControls();
+  // Indices of the first and last segment in the selected range; null means the whole track.
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+
+  const stats = useMemo(() => {
+    const timeRange =
+      range && segments[range.from] && segments[range.to]
+        ? { startSec: segments[range.from].timeSec, endSec: segments[range.to].timeSec }
+        : null;
+    return computeSentimentStats(segments, timeRange);
+  }, [segments, range]);
+
+  const lastIndex = segments.length - 1;
+  const from = range?.from ?? 0;
+  const to = range?.to ?? lastIndex;
+
+  const updateRange = (nextFrom: number, nextTo: number) => {
+    const ordered = { from: Math.min(nextFrom, nextTo), to: Math.max(nextFrom, nextTo) };
+    setRange(ordered.from === 0 && ordered.to === lastIndex ? null : ordered);
+  };
+
+  if (!stats) return null;
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow p-6 flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-xl font-semibold">Statistics</h2>
+        <div className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+          <span>From</span>
+          <select value={from} onChange={(e) => updateRange(Number(e.target.value), to)} className="border rounded px-2 py-1">
+            {segments.map((seg, i) => (
+              <option key={seg.timeSec} value={i}>
+                {formatTime(seg.timeSec)}
+              </option>
+            ))}
+          </select>
+          <span>to</span>
+          <select value={to} onChange={(e) => updateRange(from, Number(e.target.value))} className="border rounded px-2 py-1">
+            {segments.map((seg, i) => (
+              <option key={seg.timeSec} value={i}>
+                {formatTime(seg.timeSec)}
+              </option>
+            ))}
+          </select>
+          {range && (
+            <button onClick={() => setRange(null)} className="text-indigo-600 hover:underline">
+              Whole track
+            </button>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1">Dimension</th>
+            <th>Mean</th>
+            <th>Min</th>
+            <th>Max</th>
+            <th>Std dev</th>
+            <th>Trend / min</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sentimentDimensions.map((dimension) => {
+            const d = stats.dimensions[dimension];
+            return (
+              <tr key={dimension} className="border-t">
+                <td className="py-2 flex items-center gap-2 capitalize">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: getStrokeColor(dimension) }} />
+                  {dimension}
+                </td>
+                <td>{d.mean.toFixed(2)}</td>
+                <td>
+                  <button onClick={() => seek(d.min.timeSec)} className="hover:underline">
+                    {d.min.value.toFixed(2)} <span className="text-gray-400">@ {formatTime(d.min.timeSec)}</span>
+                  </button>
+                </td>
+                <td>
+                  <button onClick={() => seek(d.max.timeSec)} className="hover:underline">
+                    {d.max.value.toFixed(2)} <span className="text-gray-400">@ {formatTime(d.max.timeSec)}</span>
+                  </button>
+                </td>
+                <td>{d.stdDev.toFixed(2)}</td>
+                <td className={d.slopePerMin >= 0 ? "text-green-600" : "text-red-600"}>{formatSigned(d.slopePerMin)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="flex flex-col md:flex-row gap-6 text-sm">
+        <div className="flex-1">
+          <h3 className="font-semibold mb-2">Correlations</h3>
+          <ul className="space-y-1">
+            {dimensionPairs.map(([a, b]) => {
+              const value = stats.correlations[`${a}-${b}`];
+              return (
+                <li key={`${a}-${b}`} className="flex justify-between capitalize">
+                  <span>
+                    {a} ↔ {b}
+                  </span>
+                  <span>{value === null ? "n/a" : value.toFixed(2)}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold mb-2">Biggest jumps</h3>
+          {stats.jumps.length === 0 && <p className="text-gray-500">Not enough segments.</p>}
+          <ul className="space-y-1">
+            {stats.jumps.map((jump) => (
+              <li key={jump.fromSec}>
+                <button onClick={() => seek(jump.fromSec)} className="w-full flex justify-between hover:underline">
+                  <span>
+                    {formatTime(jump.fromSec)} → {formatTime(jump.toSec)}
+                  </span>
+                  <span className="text-gray-600">
+                    {sentimentDimensions.map((dimension) => formatSigned(jump.deltas[dimension])).join(" / ")}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {stats.jumps.length > 0 && <p className="text-xs text-gray-500 mt-1">Changes in valence / arousal / dominance.</p>}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        {stats.segmentCount} segments{range ? " in the selected range" : ""}.
+      </p>
+    </div>
+  );
+};
+
+export default StatisticsPanel;
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useMemo, useState } from "react";
 import {
   ResponsiveContainer,
   LineChart,
@@ -8,54 +8,226 @@ import {
   Tooltip,
   Legend,
   CartesianGrid,
+  ReferenceLine,
+  ReferenceArea,
+  Brush,
 } from "recharts";
 import { ServerSegment } from "./SpeakerWithWaves";
+import { computeAverages, segmentEnds } from "@/app/utils/sentimentHelpers";
+import { usePlayback } from "@/app/context/PlaybackContext";
+import { CompareAlignment, buildOverlayData } from "@/app/utils/sentimentCompare";
+import type { TimeRange } from "@/app/utils/moodTags";
+import { SmoothingMethod, smoothSeries, smoothingMethods } from "@/app/utils/smoothing";
+import { formatTime } from "@/app/utils/timeFormat";
 
 interface TimelineChartProps {
   animatedSegments: ServerSegment[];
+  // Second track to overlay; `animatedSegments` is then drawn as the first track.
+  comparison?: {
+    segments: ServerSegment[];
+    alignment: CompareAlignment;
+    labels: [string, string];
+  };
+  // Time ranges to shade, e.g. where a selected mood dominates.
+  highlight?: { ranges: TimeRange[]; color: string };
 }
 
-const TimelineChart: React.FC<TimelineChartProps> = ({ animatedSegments }) => {
-  const data = animatedSegments.map((seg) => ({
-    time: `${seg.timeSec}s`,
-    Valence: parseFloat(seg.valence.toFixed(2)),
-    Arousal: parseFloat(seg.arousal.toFixed(2)),
-    Dominance: parseFloat(seg.dominance.toFixed(2)),
-  }));
+const lineColors = { Valence: "#8884d8", Arousal: "#82ca9d", Dominance: "#ffc658" };
 
-  const total = animatedSegments.length;
-  const sum = animatedSegments.reduce(
-    (acc, seg) => {
-      acc.valence += seg.valence;
-      acc.arousal += seg.arousal;
-      acc.dominance += seg.dominance;
-      return acc;
-    },
-    { valence: 0, arousal: 0, dominance: 0 }
-  );
+type LineName = keyof typeof lineColors;
+
+const lineNames = Object.keys(lineColors) as LineName[];
+
+const lineKeys: Record<LineName, "valence" | "arousal" | "dominance"> = {
+  Valence: "valence",
+  Arousal: "arousal",
+  Dominance: "dominance",
+};
+
+// Headroom added around the data when the y-axis is fitted.
+const Y_FIT_PADDING = 0.05;
+
+const TimelineChart: React.FC<TimelineChartProps> = ({ animatedSegments, comparison, highlight }) => {
+  const { currentTime, seek } = usePlayback();
+  const [visible, setVisible] = useState<Record<LineName, boolean>>({ Valence: true, Arousal: true, Dominance: true });
+  const [smoothing, setSmoothing] = useState<SmoothingMethod>("none");
+  const [fitYAxis, setFitYAxis] = useState(false);
+  // Brush selection, kept only while the data it was made on has the same length.
+  const [brushRange, setBrushRange] = useState<{ startIndex: number; endIndex: number; length: number } | null>(null);
 
-  const averages =
-    total > 0
-      ? {
-          valence: parseFloat((sum.valence / total).toFixed(2)),
-          arousal: parseFloat((sum.arousal / total).toFixed(2)),
-          dominance: parseFloat((sum.dominance / total).toFixed(2)),
-        }
-      : { valence: 0, arousal: 0, dominance: 0 };
+  // Stable across playback re-renders, so the chart and its brush keep their state.
+  const data = useMemo(() => {
+    const smoothed = Object.fromEntries(
+      lineNames.map((name) => [name, smoothSeries(animatedSegments.map((seg) => seg[lineKeys[name]]), smoothing)])
+    ) as Record<LineName, number[]>;
+    return animatedSegments.map((seg, i) => {
+      const row: Record<string, number> = { timeSec: seg.timeSec };
+      lineNames.forEach((name) => {
+        row[name] = parseFloat(smoothed[name][i].toFixed(2));
+        row[`raw${name}`] = parseFloat(seg[lineKeys[name]].toFixed(2));
+      });
+      return row;
+    });
+  }, [animatedSegments, smoothing]);
+
+  if (comparison) {
+    const overlayData = buildOverlayData(animatedSegments, comparison.segments, comparison.alignment);
+    const unit = comparison.alignment === "absolute" ? "s" : "%";
+    return (
+      <div className="w-full bg-white flex flex-col items-center rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-4">Sentiment Over Time</h2>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={overlayData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={comparison.alignment === "absolute" ? [0, "dataMax"] : [0, 100]}
+              unit={unit}
+            />
+            <YAxis domain={[0, 1]} />
+            <Tooltip labelFormatter={(x) => `${x}${unit}`} />
+            <Legend />
+            {(Object.keys(lineColors) as (keyof typeof lineColors)[]).flatMap((dimension) => [
+              <Line
+                key={`a${dimension}`}
+                type="monotone"
+                dataKey={`a${dimension}`}
+                name={`${dimension} (${comparison.labels[0]})`}
+                stroke={lineColors[dimension]}
+                connectNulls
+              />,
+              <Line
+                key={`b${dimension}`}
+                type="monotone"
+                dataKey={`b${dimension}`}
+                name={`${dimension} (${comparison.labels[1]})`}
+                stroke={lineColors[dimension]}
+                strokeDasharray="6 4"
+                connectNulls
+              />,
+            ])}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+
+  const averages = computeAverages(animatedSegments);
+  const lastTime = animatedSegments[animatedSegments.length - 1]?.timeSec ?? 0;
+  // Points sit at segment starts; the axis runs on to where the last segment ends.
+  const trackEnd = segmentEnds(animatedSegments).at(-1) ?? 0;
+  const playheadTime = currentTime === null ? null : Math.min(currentTime, trackEnd);
+  const brush = brushRange?.length === data.length ? brushRange : null;
+
+  // Fitted y-range over the visible lines, raw values included so the overlay is never clipped.
+  const visibleValues = lineNames
+    .filter((name) => visible[name])
+    .flatMap((name) => data.map((row) => [row[name], row[`raw${name}`]]).flat());
+  const yDomain: [number, number] =
+    fitYAxis && visibleValues.length > 0
+      ? [
+          Math.max(0, Math.min(...visibleValues) - Y_FIT_PADDING),
+          Math.min(1, Math.max(...visibleValues) + Y_FIT_PADDING),
+        ]
+      : [0, 1];
 
   return (
     <div className="w-full bg-white flex flex-col items-center rounded-lg shadow p-6 transition-transform duration-500 hover:scale-105">
       <h2 className="text-xl font-semibold mb-4">Sentiment Over Time</h2>
-      <ResponsiveContainer width="100%" height={300}>
-        <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+      <div className="w-full flex flex-wrap items-center gap-3 mb-2 text-sm">
+        {lineNames.map((name) => (
+          <button
+            key={name}
+            onClick={() => setVisible((prev) => ({ ...prev, [name]: !prev[name] }))}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full border ${visible[name] ? "" : "opacity-40"}`}
+            aria-pressed={visible[name]}
+          >
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: lineColors[name] }} />
+            {name}
+          </button>
+        ))}
+        <label className="flex items-center gap-2 ml-auto text-gray-600">
+          Smoothing
+          <select
+            value={smoothing}
+            onChange={(e) => setSmoothing(e.target.value as SmoothingMethod)}
+            className="border rounded px-2 py-1"
+          >
+            {smoothingMethods.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 text-gray-600 cursor-pointer">
+          <input type="checkbox" checked={fitYAxis} onChange={(e) => setFitYAxis(e.target.checked)} />
+          Fit y-axis
+        </label>
+      </div>
+      <ResponsiveContainer width="100%" height={340}>
+        <LineChart
+          data={data}
+          margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+          onClick={(state) => {
+            const index = state?.activeTooltipIndex;
+            if (index !== undefined && animatedSegments[index]) seek(animatedSegments[index].timeSec);
+          }}
+          className="cursor-pointer"
+        >
           <CartesianGrid strokeDasharray="3 3" />
-          <XAxis dataKey="time" />
-          <YAxis domain={[0, 1]} />
-          <Tooltip />
+          <XAxis
+            dataKey="timeSec"
+            type="number"
+            domain={["dataMin", (dataMax: number) => (dataMax === lastTime ? trackEnd : dataMax)]}
+            tickFormatter={formatTime}
+          />
+          <YAxis domain={yDomain} tickFormatter={(value: number) => value.toFixed(2)} allowDataOverflow />
+          <Tooltip labelFormatter={(timeSec) => formatTime(Number(timeSec))} />
           <Legend />
-          <Line type="monotone" dataKey="Valence" stroke="#8884d8" />
-          <Line type="monotone" dataKey="Arousal" stroke="#82ca9d" />
-          <Line type="monotone" dataKey="Dominance" stroke="#ffc658" />
+          {highlight?.ranges.map((range) => (
+            <ReferenceArea
+              key={range.startSec}
+              x1={range.startSec}
+              x2={Math.min(range.endSec, trackEnd)}
+              fill={highlight.color}
+              fillOpacity={0.15}
+            />
+          ))}
+          {playheadTime !== null && <ReferenceLine x={playheadTime} stroke="#ef4444" strokeWidth={2} />}
+          {smoothing !== "none" &&
+            lineNames.map((name) => (
+              <Line
+                key={`raw${name}`}
+                type="linear"
+                dataKey={`raw${name}`}
+                stroke={lineColors[name]}
+                strokeOpacity={0.25}
+                dot={false}
+                activeDot={false}
+                legendType="none"
+                tooltipType="none"
+                hide={!visible[name]}
+                isAnimationActive={false}
+              />
+            ))}
+          {lineNames.map((name) => (
+            <Line key={name} type="monotone" dataKey={name} stroke={lineColors[name]} hide={!visible[name]} />
+          ))}
+          {data.length > 2 && (
+            <Brush
+              dataKey="timeSec"
+              height={24}
+              stroke="#6366f1"
+              tickFormatter={(timeSec: number) => formatTime(timeSec)}
+              startIndex={brush?.startIndex}
+              endIndex={brush?.endIndex}
+              onChange={({ startIndex = 0, endIndex = data.length - 1 }) =>
+                setBrushRange({ startIndex, endIndex, length: data.length })
+              }
+            />
+          )}
         </LineChart>
       </ResponsiveContainer>
       <div className="mt-4 flex space-x-6">
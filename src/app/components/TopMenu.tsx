@@ -1,15 +1,16 @@
 import React from "react";
 import { MdMusicNote, MdMusicOff } from "react-icons/md";
-import { FaBook } from "react-icons/fa";
+import { FaBook, FaHistory } from "react-icons/fa";
 
 interface TopMenuProps {
   isAudioMuted: boolean;
   toggleAudioMute: () => void;
   resetApp: () => void;
+  openHistory: () => void;
   showNavbar: boolean;
 }
 
-const TopMenu: React.FC<TopMenuProps> = ({ isAudioMuted, toggleAudioMute, resetApp, showNavbar }) => {
+const TopMenu: React.FC<TopMenuProps> = ({ isAudioMuted, toggleAudioMute, resetApp, openHistory, showNavbar }) => {
   return (
     <div
       className={`fixed transition-transform duration-300 z-50 
@@ -33,6 +34,13 @@ const TopMenu: React.FC<TopMenuProps> = ({ isAudioMuted, toggleAudioMute, resetA
         >
           {isAudioMuted ? <MdMusicOff className="h-6 w-6" /> : <MdMusicNote className="h-6 w-6" />}
         </button>
+        <button
+          title="Analysis History"
+          onClick={openHistory}
+          className="text-light-blue-light text-gray-100 hover:text-gray-400 active:scale-125 border-2 inline-flex items-center mr-4 p-2 border-transparent bg-light-secondary focus:outline-none rounded-full text-sm"
+        >
+          <FaHistory className="h-5 w-5" />
+        </button>
         <button
           title="GitHub Repo"
           onClick={() =>
@@ -0,0 +1,133 @@
+import React from "react";
+import { ServerSegment } from "./SpeakerWithWaves";
+import { usePlayback } from "@/app/context/PlaybackContext";
+import { segmentIndexAt } from "@/app/utils/sentimentHelpers";
+import { formatTime } from "@/app/utils/timeFormat";
+
+interface TrajectoryChartProps {
+  segments: ServerSegment[];
+}
+
+const SIZE = 360;
+const PADDING = 36;
+const PLOT = SIZE - 2 * PADDING;
+
+const quadrantLabels = [
+  { text: "Excited · Happy", x: SIZE - PADDING - 6, y: PADDING + 16, anchor: "end" },
+  { text: "Tense · Angry", x: PADDING + 6, y: PADDING + 16, anchor: "start" },
+  { text: "Sad · Depressed", x: PADDING + 6, y: SIZE - PADDING - 8, anchor: "start" },
+  { text: "Calm · Relaxed", x: SIZE - PADDING - 6, y: SIZE - PADDING - 8, anchor: "end" },
+] as const;
+
+// Valence runs left to right, arousal bottom to top.
+const toX = (valence: number) => PADDING + valence * PLOT;
+const toY = (arousal: number) => PADDING + (1 - arousal) * PLOT;
+
+// Early segments are blue, late ones red.
+const timeColor = (fraction: number) => `hsl(${240 - 240 * fraction}, 75%, 50%)`;
+
+const pointRadius = (dominance: number) => 3 + dominance * 7;
+
+// Sentiment at `timeSec`, interpolated between the surrounding segments.
+const interpolateAt = (segments: ServerSegment[], timeSec: number): ServerSegment | null => {
+  const index = segmentIndexAt(segments, timeSec);
+  if (index < 0) return null;
+  const current = segments[index];
+  const next = segments[index + 1];
+  if (!next) return current;
+  const t = (timeSec - current.timeSec) / (next.timeSec - current.timeSec);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  return {
+    timeSec,
+    valence: lerp(current.valence, next.valence),
+    arousal: lerp(current.arousal, next.arousal),
+    dominance: lerp(current.dominance, next.dominance),
+  };
+};
+
+const TrajectoryChart: React.FC<TrajectoryChartProps> = ({ segments }) => {
+  const { currentTime, seek } = usePlayback();
+  const playhead = currentTime === null ? null : interpolateAt(segments, currentTime);
+  const fractionAt = (i: number) => (segments.length > 1 ? i / (segments.length - 1) : 0);
+
+  return (
+    <div className="w-full bg-white flex flex-col items-center rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold mb-4">Valence–Arousal Trajectory</h2>
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-md">
+        <rect x={PADDING} y={PADDING} width={PLOT} height={PLOT} fill="#f9fafb" stroke="#d1d5db" />
+        <line x1={toX(0.5)} y1={PADDING} x2={toX(0.5)} y2={SIZE - PADDING} stroke="#d1d5db" strokeDasharray="4 4" />
+        <line x1={PADDING} y1={toY(0.5)} x2={SIZE - PADDING} y2={toY(0.5)} stroke="#d1d5db" strokeDasharray="4 4" />
+        {quadrantLabels.map((label) => (
+          <text key={label.text} x={label.x} y={label.y} textAnchor={label.anchor} className="fill-gray-400 text-[11px]">
+            {label.text}
+          </text>
+        ))}
+        <text x={SIZE / 2} y={SIZE - 8} textAnchor="middle" className="fill-gray-600 text-xs">
+          Valence →
+        </text>
+        <text
+          x={12}
+          y={SIZE / 2}
+          textAnchor="middle"
+          transform={`rotate(-90 12 ${SIZE / 2})`}
+          className="fill-gray-600 text-xs"
+        >
+          Arousal →
+        </text>
+
+        {/* Path, one line per step so each can take its own time color */}
+        {segments.slice(1).map((seg, i) => (
+          <line
+            key={`step-${seg.timeSec}`}
+            x1={toX(segments[i].valence)}
+            y1={toY(segments[i].arousal)}
+            x2={toX(seg.valence)}
+            y2={toY(seg.arousal)}
+            stroke={timeColor(fractionAt(i + 0.5))}
+            strokeWidth={2}
+            strokeOpacity={0.6}
+          />
+        ))}
+        {segments.map((seg, i) => (
+          <circle
+            key={seg.timeSec}
+            cx={toX(seg.valence)}
+            cy={toY(seg.arousal)}
+            r={pointRadius(seg.dominance)}
+            fill={timeColor(fractionAt(i))}
+            fillOpacity={0.8}
+            stroke="white"
+            className="cursor-pointer"
+            onClick={() => seek(seg.timeSec)}
+          >
+            <title>
+              {formatTime(seg.timeSec)} · V {seg.valence.toFixed(2)} · A {seg.arousal.toFixed(2)} · D{" "}
+              {seg.dominance.toFixed(2)}
+            </title>
+          </circle>
+        ))}
+        {playhead && (
+          <circle
+            cx={toX(playhead.valence)}
+            cy={toY(playhead.arousal)}
+            r={pointRadius(playhead.dominance) + 3}
+            fill="none"
+            stroke="#ef4444"
+            strokeWidth={3}
+          />
+        )}
+      </svg>
+      <div className="mt-4 flex items-center gap-3 text-sm text-gray-600">
+        <span>Start</span>
+        <span
+          className="w-32 h-2 rounded-full"
+          style={{ background: `linear-gradient(to right, ${timeColor(0)}, ${timeColor(0.5)}, ${timeColor(1)})` }}
+        />
+        <span>End</span>
+        <span className="ml-4">Point size = dominance</span>
+      </div>
+    </div>
+  );
+};
+
+export default TrajectoryChart;
@@ -0,0 +1,36 @@
+import React from "react";
+import Image from "next/image";
+
+interface UploadProgressProps {
+  progress: number;
+  preparing?: boolean;
+  retryAttempt: number | null;
+  onCancel: () => void;
+}
+
+const UploadProgress: React.FC<UploadProgressProps> = ({ progress, preparing = false, retryAttempt, onCancel }) => {
+  const percent = Math.round(progress * 100);
+
+  const label = preparing
+    ? "Preparing audio..."
+    : retryAttempt !== null
+    ? `Connection problem, retrying (attempt ${retryAttempt})...`
+    : percent >= 100
+    ? "Upload complete, waiting for analysis..."
+    : `Uploading... ${percent}%`;
+
+  return (
+    <div className="flex flex-col items-center space-y-4 transition-all duration-500">
+      <p className="text-lg text-gray-700 animate-pulse">{label}</p>
+      <div className="w-64 bg-gray-200 rounded-full h-2">
+        <div className="bg-indigo-600 h-2 rounded-full transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+      <Image src="/speaker.svg" alt="Speaker" width={120} height={120} className="relative" />
+      <button onClick={onCancel} className="text-sm text-red-600 hover:underline">
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default UploadProgress;
@@ -1,9 +1,20 @@
 import React, { useRef, useState, useEffect, useMemo } from "react";
+import { usePlaybackControls } from "@/app/context/PlaybackContext";
+import { formatTime } from "@/app/utils/timeFormat";
+import AudioVisualizer from "./AudioVisualizer";
+import EditableText from "./EditableText";
 
 interface MusicPlayerProps {
   audioUrl: string;
   songName: string;
   artistName: string;
+  album?: string;
+  year?: string;
+  // Embedded cover art; the random disc design is drawn when missing.
+  coverUrl?: string | null;
+  // When given, the title/artist can be edited inline.
+  onSongNameChange?: (name: string) => void;
+  onArtistNameChange?: (name: string) => void;
   autoPlay?: boolean;
 }
 
@@ -11,12 +22,24 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({
   audioUrl,
   songName,
   artistName,
+  album,
+  year,
+  coverUrl,
+  onSongNameChange,
+  onArtistNameChange,
   autoPlay = false,
 }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(autoPlay);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const { registerAudio } = usePlaybackControls();
+
+  // Share this player's clock with the charts
+  useEffect(() => {
+    registerAudio(audioRef.current);
+    return () => registerAudio(null);
+  }, [registerAudio]);
 
   // --- Random Disc Design Setup ---
   const designVariants = useMemo(() => {
@@ -102,14 +125,29 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({
     }
   }, [autoPlay]);
 
-  const formatTime = (time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds < 10 ? "0" : ""}${seconds}`;
-  };
-
   const spinStyle = { animationPlayState: isPlaying ? "running" : "paused" };
 
+  const discArtwork = coverUrl ? (
+    <image href={coverUrl} width={128} height={128} preserveAspectRatio="xMidYMid slice" />
+  ) : (
+    <>
+      <rect width={128} height={128} fill="black" />
+      <circle cx={20} cy={20} r={2} fill="white" />
+      <circle cx={40} cy={30} r={2} fill="white" />
+      <circle cx={60} cy={10} r={2} fill="white" />
+      <circle cx={80} cy={40} r={2} fill="white" />
+      <circle cx={100} cy={20} r={2} fill="white" />
+      <circle cx={120} cy={50} r={2} fill="white" />
+      <circle cx={90} cy={30} r={10} fill="white" fillOpacity="0.5" />
+      <circle cx={90} cy={30} r={8} fill="white" />
+      {selectedVariant.map((d, i) => (
+        <path key={i} d={d} fill={randomPathColors[i]} stroke="black" strokeWidth={1} />
+      ))}
+    </>
+  );
+
+  const albumLine = [album, year].filter(Boolean).join(" · ");
+
   return (
     <div className="flex flex-col items-center group/he select-none">
       {/* Large Disk */}
@@ -121,20 +159,7 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({
           className="duration-500 border-4 rounded-full shadow-md border-zinc-400 border-spacing-5 animate-[spin_5s_linear_infinite] transition-all"
           style={spinStyle}
         >
-          <svg>
-            <rect width={128} height={128} fill="black" />
-            <circle cx={20} cy={20} r={2} fill="white" />
-            <circle cx={40} cy={30} r={2} fill="white" />
-            <circle cx={60} cy={10} r={2} fill="white" />
-            <circle cx={80} cy={40} r={2} fill="white" />
-            <circle cx={100} cy={20} r={2} fill="white" />
-            <circle cx={120} cy={50} r={2} fill="white" />
-            <circle cx={90} cy={30} r={10} fill="white" fillOpacity="0.5" />
-            <circle cx={90} cy={30} r={8} fill="white" />
-            {selectedVariant.map((d, i) => (
-              <path key={i} d={d} fill={randomPathColors[i]} stroke="black" strokeWidth={1} />
-            ))}
-          </svg>
+          <svg>{discArtwork}</svg>
         </svg>
         <div className="absolute z-10 w-8 h-8 bg-white border-4 rounded-full shadow-sm border-zinc-400 top-12 left-12" />
       </div>
@@ -150,26 +175,22 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({
               className="duration-500 border-4 rounded-full shadow-md border-zinc-400 border-spacing-5 animate-[spin_5s_linear_infinite]"
               style={spinStyle}
             >
-              <svg>
-                <rect width={128} height={128} fill="black" />
-                <circle cx={20} cy={20} r={2} fill="white" />
-                <circle cx={40} cy={30} r={2} fill="white" />
-                <circle cx={60} cy={10} r={2} fill="white" />
-                <circle cx={80} cy={40} r={2} fill="white" />
-                <circle cx={100} cy={20} r={2} fill="white" />
-                <circle cx={120} cy={50} r={2} fill="white" />
-                <circle cx={90} cy={30} r={10} fill="white" fillOpacity="0.5" />
-                <circle cx={90} cy={30} r={8} fill="white" />
-                {selectedVariant.map((d, i) => (
-                  <path key={i} d={d} fill={randomPathColors[i]} stroke="black" strokeWidth={1} />
-                ))}
-              </svg>
+              <svg>{discArtwork}</svg>
             </svg>
             <div className="absolute z-10 w-6 h-6 bg-white border-4 rounded-full shadow-sm border-zinc-400 top-9 left-9" />
           </div>
           <div className="flex flex-col justify-center w-full pl-3 -ml-24 overflow-hidden group-hover/he:-ml-3 text-nowrap">
-            <p className="text-xl font-bold">{songName}</p>
-            <p className="text-zinc-600">{artistName}</p>
+            {onSongNameChange ? (
+              <EditableText value={songName} onChange={onSongNameChange} className="text-xl font-bold" label="Title" />
+            ) : (
+              <p className="text-xl font-bold">{songName}</p>
+            )}
+            {onArtistNameChange ? (
+              <EditableText value={artistName} onChange={onArtistNameChange} className="text-zinc-600" label="Artist" />
+            ) : (
+              <p className="text-zinc-600">{artistName}</p>
+            )}
+            {albumLine && <p className="text-xs text-zinc-500 truncate">{albumLine}</p>}
           </div>
         </div>
         <div className="flex flex-row mx-3 mt-3 bg-indigo-100 rounded-md min-h-4 group-hover/he:mt-0">
@@ -285,6 +306,16 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({
         </div>
       </div>
       <audio ref={audioRef} src={audioUrl} className="hidden" />
+      <AudioVisualizer
+        audioUrl={audioUrl}
+        currentTime={currentTime}
+        onSeek={(timeSec) => {
+          if (audioRef.current) {
+            audioRef.current.currentTime = timeSec;
+          }
+          setCurrentTime(timeSec);
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,100 @@
+"use client";
+
+import React, { createContext, useContext, useState, useRef, useEffect, useCallback, useMemo, ReactNode } from "react";
+
+// Shared playback clock: MusicPlayer registers its <audio> element, charts read the
+// current position from here and can seek the player. The clock and the controls are separate
+// contexts, so components that only seek don't re-render while the track plays.
+
+interface PlaybackClock {
+  // Current playback position in seconds, or null when no audio is registered.
+  currentTime: number | null;
+  isPlaying: boolean;
+}
+
+interface PlaybackControls {
+  seek: (timeSec: number) => void;
+  registerAudio: (audio: HTMLAudioElement | null) => void;
+}
+
+// How often the position is published while playing.
+const CLOCK_INTERVAL_MS = 100;
+
+const PlaybackClockContext = createContext<PlaybackClock>({ currentTime: null, isPlaying: false });
+
+const PlaybackControlsContext = createContext<PlaybackControls>({
+  seek: () => {},
+  registerAudio: () => {},
+});
+
+export const usePlaybackControls = () => useContext(PlaybackControlsContext);
+
+export const usePlayback = () => ({ ...useContext(PlaybackClockContext), ...useContext(PlaybackControlsContext) });
+
+export const PlaybackProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [audio, setAudio] = useState<HTMLAudioElement | null>(null);
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!audio) {
+      setCurrentTime(null);
+      setIsPlaying(false);
+      return;
+    }
+    // timeupdate fires irregularly, so poll while playing, publishing at a steady rate.
+    let lastPublished = 0;
+    const tick = (now: number) => {
+      if (now - lastPublished >= CLOCK_INTERVAL_MS) {
+        lastPublished = now;
+        setCurrentTime(audio.currentTime);
+      }
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    const handlePlay = () => {
+      setIsPlaying(true);
+      if (frameRef.current === null) frameRef.current = requestAnimationFrame(tick);
+    };
+    const handlePause = () => {
+      setIsPlaying(false);
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+      setCurrentTime(audio.currentTime);
+    };
+    const handleSeeked = () => setCurrentTime(audio.currentTime);
+
+    setCurrentTime(audio.currentTime);
+    if (!audio.paused) handlePlay();
+    audio.addEventListener("play", handlePlay);
+    audio.addEventListener("pause", handlePause);
+    audio.addEventListener("ended", handlePause);
+    audio.addEventListener("seeked", handleSeeked);
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+      audio.removeEventListener("play", handlePlay);
+      audio.removeEventListener("pause", handlePause);
+      audio.removeEventListener("ended", handlePause);
+      audio.removeEventListener("seeked", handleSeeked);
+    };
+  }, [audio]);
+
+  const seek = useCallback(
+    (timeSec: number) => {
+      if (!audio) return;
+      audio.currentTime = Math.max(0, Math.min(timeSec, audio.duration || timeSec));
+      setCurrentTime(audio.currentTime);
+    },
+    [audio]
+  );
+
+  const clock = useMemo(() => ({ currentTime, isPlaying }), [currentTime, isPlaying]);
+  const controls = useMemo(() => ({ seek, registerAudio: setAudio }), [seek]);
+
+  return (
+    <PlaybackControlsContext.Provider value={controls}>
+      <PlaybackClockContext.Provider value={clock}>{children}</PlaybackClockContext.Provider>
+    </PlaybackControlsContext.Provider>
+  );
+};
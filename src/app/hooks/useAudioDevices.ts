@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from "react";
+import { MicrophoneError, toMicrophoneError } from "@/app/utils/microphoneErrors";
+
+// Keeps the list of audio inputs current as devices are plugged in and out, remembers the
+// user's preferred microphone across sessions, and falls back to the browser default while
+// that microphone is missing.
+
+export type MicrophonePermission = "unknown" | "prompt" | "granted" | "denied";
+
+const PREFERRED_MIC_KEY = "recording.preferredMic";
+
+const readPreferredMic = () => localStorage.getItem(PREFERRED_MIC_KEY);
+
+export const useAudioDevices = () => {
+  const [mics, setMics] = useState<MediaDeviceInfo[]>([]);
+  const [preferredMic, setPreferredMic] = useState<string | null>(null);
+  const [permission, setPermission] = useState<MicrophonePermission>("unknown");
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      const audioInputs = devices.filter((d) => d.kind === "audioinput");
+      setMics(audioInputs);
+      // Devices only get labels once access has been granted.
+      if (audioInputs.some((d) => d.label)) setPermission("granted");
+    } catch (error) {
+      console.error("Error enumerating devices:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setPreferredMic(readPreferredMic());
+    refresh();
+    navigator.mediaDevices?.addEventListener("devicechange", refresh);
+
+    // Not every browser can query the microphone permission; the labels above cover those.
+    let status: PermissionStatus | null = null;
+    const onPermissionChange = () => {
+      if (!status) return;
+      setPermission(status.state);
+      if (status.state === "granted") refresh();
+    };
+    navigator.permissions
+      ?.query({ name: "microphone" as PermissionName })
+      .then((result) => {
+        status = result;
+        status.addEventListener("change", onPermissionChange);
+        onPermissionChange();
+      })
+      .catch(() => {});
+
+    return () => {
+      navigator.mediaDevices?.removeEventListener("devicechange", refresh);
+      status?.removeEventListener("change", onPermissionChange);
+    };
+  }, [refresh]);
+
+  const selectMic = useCallback((id: string) => {
+    setPreferredMic(id);
+    localStorage.setItem(PREFERRED_MIC_KEY, id);
+  }, []);
+
+  // Prompts for access so devices get labels; resolves to the failure, if any.
+  const requestAccess = useCallback(async (): Promise<MicrophoneError | null> => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream.getTracks().forEach((track) => track.stop());
+      await refresh();
+      return null;
+    } catch (err) {
+      const error = toMicrophoneError(err);
+      if (error.kind === "denied") setPermission("denied");
+      return error;
+    }
+  }, [refresh]);
+
+  const preferredAvailable = !!preferredMic && mics.some((mic) => mic.deviceId === preferredMic);
+  // The preference stays stored while its device is unplugged, so it is picked again on return.
+  const selectedMic = preferredAvailable ? preferredMic : (mics[0]?.deviceId ?? null);
+
+  return {
+    mics,
+    selectedMic: selectedMic || null,
+    // Set when a remembered microphone isn't connected and another one is used instead.
+    usingFallback: permission === "granted" && !!preferredMic && !preferredAvailable && mics.length > 0,
+    permission,
+    selectMic,
+    refresh,
+    requestAccess,
+  };
+};
+
+export type AudioDevices = ReturnType<typeof useAudioDevices>;
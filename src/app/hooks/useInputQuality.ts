@@ -0,0 +1,57 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { createQualityTracker, measureFrame, LevelFrame, MIN_DB, QualityTracker } from "@/app/utils/inputQuality";
+
+// Live input meter for a recording stream. Frames are only added to the quality report while
+// `active` (i.e. not paused), but the meter keeps moving so the user can check their level.
+
+// Meter updates per second; measuring every animation frame would re-render needlessly.
+const UPDATE_INTERVAL_MS = 100;
+
+export const useInputQuality = (stream: MediaStream | null, active: boolean) => {
+  const [level, setLevel] = useState<LevelFrame>({ peakDb: MIN_DB, rmsDb: MIN_DB, clipped: false });
+  // Latched when a clip happens, until cleared by the user or a new stream.
+  const [clipHeld, setClipHeld] = useState(false);
+  const [silentSec, setSilentSec] = useState(0);
+  const trackerRef = useRef<QualityTracker>(createQualityTracker());
+  const activeRef = useRef(active);
+  activeRef.current = active;
+
+  useEffect(() => {
+    if (!stream) return;
+    const tracker = createQualityTracker();
+    trackerRef.current = tracker;
+    setClipHeld(false);
+    setSilentSec(0);
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 4096;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let lastTime = performance.now();
+    const timer = window.setInterval(() => {
+      const now = performance.now();
+      analyser.getFloatTimeDomainData(samples);
+      const frame = measureFrame(samples);
+      if (activeRef.current) {
+        tracker.add(frame, (now - lastTime) / 1000);
+        setSilentSec(tracker.currentSilence());
+      }
+      lastTime = now;
+      setLevel(frame);
+      if (frame.clipped) setClipHeld(true);
+    }, UPDATE_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(timer);
+      audioContext.close();
+      setLevel({ peakDb: MIN_DB, rmsDb: MIN_DB, clipped: false });
+    };
+  }, [stream]);
+
+  // Summary of the most recent stream, still available after it has ended.
+  const getReport = useCallback(() => trackerRef.current.report(), []);
+  const clearClip = useCallback(() => setClipHeld(false), []);
+
+  return { level, clipHeld, silentSec, getReport, clearClip };
+};
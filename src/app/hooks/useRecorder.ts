@@ -0,0 +1,269 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { MicrophoneError, toMicrophoneError } from "@/app/utils/microphoneErrors";
+
+// Recording shared by the inline recorder and RecordModal, from the microphone or from a shared
+// tab or screen (display capture): picks a container the browser can record, keeps an
+// elapsed-time clock that stops while paused, stops itself at a maximum duration, and always
+// releases the capture. If the source goes away mid-way, the recording stops and what was
+// captured so far is still delivered.
+
+export interface Recording {
+  blob: Blob;
+  mimeType: string;
+  durationSec: number;
+}
+
+export type RecordingSource = "microphone" | "display";
+
+interface RecorderOptions {
+  source?: RecordingSource;
+  deviceId?: string | null;
+  maxDurationSec?: number;
+  onComplete: (recording: Recording) => void;
+}
+
+export type RecorderStatus = "idle" | "recording" | "paused";
+
+// Preferred first; Safari only records MP4/AAC.
+const MIME_TYPE_CANDIDATES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/ogg;codecs=opus",
+  "audio/mp4;codecs=mp4a.40.2",
+  "audio/mp4",
+  "audio/aac",
+];
+
+export const MAX_RECORDING_SEC = Number(process.env.NEXT_PUBLIC_MAX_RECORDING_SEC) || 15 * 60;
+
+const TIMER_INTERVAL_MS = 250;
+
+// The first supported candidate, or "" to let the browser pick its default.
+export const pickRecordingMimeType = (): string =>
+  typeof MediaRecorder === "undefined"
+    ? ""
+    : (MIME_TYPE_CANDIDATES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "");
+
+// Opens the capture for `source`. Display capture must ask for video too, so the returned stream
+// can hold a video track besides the audio.
+const openCapture = async (source: RecordingSource, deviceId?: string | null): Promise<MediaStream> => {
+  if (source === "microphone") {
+    return navigator.mediaDevices.getUserMedia({ audio: deviceId ? { deviceId: { exact: deviceId } } : true });
+  }
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new MicrophoneError("unsupported", "This browser can't capture tab or system audio.");
+  }
+  const capture = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    // Music should reach the recording untouched.
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+  });
+  if (capture.getAudioTracks().length === 0) {
+    capture.getTracks().forEach((track) => track.stop());
+    throw new MicrophoneError("no-audio", "The shared tab or screen has no audio track.");
+  }
+  return capture;
+};
+
+// Closing the screen picker rejects like a denied permission. Chrome uses the same error when the OS
+// withholds screen recording ("Permission denied by system") or a permissions policy blocks the
+// capture, and those need explaining.
+const isPickerDismissal = (err: unknown) =>
+  err instanceof DOMException && err.name === "NotAllowedError" && !/system|polic/i.test(err.message);
+
+export const useRecorder = ({
+  source = "microphone",
+  deviceId,
+  maxDurationSec = MAX_RECORDING_SEC,
+  onComplete,
+}: RecorderOptions) => {
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const [elapsedSec, setElapsedSec] = useState(0);
+  const [isMuted, setIsMuted] = useState(false);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<MicrophoneError | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<number | null>(null);
+  // Bumped by cancel and unmount, so a start still waiting on the capture knows to let it go.
+  const startIdRef = useRef(0);
+  // Time recorded before the current run, and when the current run started.
+  const clockRef = useRef({ accumulatedMs: 0, runStartedAt: null as number | null });
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const readElapsedMs = () => {
+    const { accumulatedMs, runStartedAt } = clockRef.current;
+    return accumulatedMs + (runStartedAt === null ? 0 : performance.now() - runStartedAt);
+  };
+
+  const releaseStream = useCallback(() => {
+    if (timerRef.current !== null) window.clearInterval(timerRef.current);
+    timerRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setStream(null);
+  }, []);
+
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === "inactive") return;
+    const { runStartedAt, accumulatedMs } = clockRef.current;
+    if (runStartedAt !== null) {
+      clockRef.current = { accumulatedMs: accumulatedMs + performance.now() - runStartedAt, runStartedAt: null };
+    }
+    setElapsedSec(readElapsedMs() / 1000);
+    recorder.stop();
+    releaseStream();
+  }, [releaseStream]);
+
+  // Stops without delivering the recording.
+  const cancel = useCallback(() => {
+    startIdRef.current++;
+    if (recorderRef.current) recorderRef.current.onstop = null;
+    stop();
+    recorderRef.current = null;
+    setStatus("idle");
+  }, [stop]);
+
+  const start = useCallback(async (): Promise<MediaStream | null> => {
+    if (recorderRef.current && recorderRef.current.state !== "inactive") return streamRef.current;
+    setError(null);
+    const startId = ++startIdRef.current;
+    let capture: MediaStream;
+    try {
+      capture = await openCapture(source, deviceId);
+    } catch (err) {
+      if (startIdRef.current !== startId) return null;
+      if (source === "display" && isPickerDismissal(err)) return null;
+      console.error("Error accessing audio source:", err);
+      const error = toMicrophoneError(err);
+      // A shared tab has no device to plug in or free up, so its failures get their own explanation.
+      const isDeviceError = error.kind !== "unsupported" && error.kind !== "no-audio";
+      if (source === "display" && isDeviceError) {
+        setError(new MicrophoneError("share-failed", error.message, { cause: err }));
+      } else {
+        setError(error);
+      }
+      return null;
+    }
+    if (startIdRef.current !== startId) {
+      capture.getTracks().forEach((track) => track.stop());
+      return null;
+    }
+    // Only the audio is recorded; the whole capture is kept so all of it can be stopped.
+    const media = source === "display" ? new MediaStream(capture.getAudioTracks()) : capture;
+
+    const mimeType = pickRecordingMimeType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(media, mimeType ? { mimeType } : undefined);
+    } catch (err) {
+      console.error("Error creating recorder:", err);
+      capture.getTracks().forEach((track) => track.stop());
+      setError(new MicrophoneError("unsupported", "Recording is not supported in this browser.", { cause: err }));
+      return null;
+    }
+
+    const chunks: BlobPart[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      const type = recorder.mimeType || mimeType || "audio/webm";
+      recorderRef.current = null;
+      setStatus("idle");
+      onCompleteRef.current({ blob: new Blob(chunks, { type }), mimeType: type, durationSec: readElapsedMs() / 1000 });
+    };
+
+    // Fired when the device is unplugged, access is revoked or the user stops sharing, not when
+    // we stop the track ourselves. Ending a share is an ordinary way to finish.
+    capture.getTracks().forEach((track) =>
+      track.addEventListener("ended", () => {
+        if (recorderRef.current !== recorder) return;
+        if (source === "microphone") {
+          setError(new MicrophoneError("disconnected", "The microphone was disconnected while recording."));
+        }
+        stop();
+      })
+    );
+
+    recorderRef.current = recorder;
+    streamRef.current = capture;
+    setStream(media);
+    clockRef.current = { accumulatedMs: 0, runStartedAt: performance.now() };
+    setElapsedSec(0);
+    setIsMuted(false);
+    recorder.start();
+    setStatus("recording");
+    timerRef.current = window.setInterval(() => setElapsedSec(readElapsedMs() / 1000), TIMER_INTERVAL_MS);
+    return media;
+  }, [source, deviceId, stop]);
+
+  const pause = useCallback(() => {
+    const recorder = recorderRef.current;
+    const { runStartedAt, accumulatedMs } = clockRef.current;
+    if (!recorder || recorder.state !== "recording" || runStartedAt === null) return;
+    recorder.pause();
+    clockRef.current = { accumulatedMs: accumulatedMs + performance.now() - runStartedAt, runStartedAt: null };
+    setStatus("paused");
+  }, []);
+
+  const resume = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== "paused") return;
+    recorder.resume();
+    clockRef.current = { ...clockRef.current, runStartedAt: performance.now() };
+    setStatus("recording");
+  }, []);
+
+  const toggleMute = useCallback(() => {
+    const media = streamRef.current;
+    if (!media) return;
+    setIsMuted((muted) => {
+      media.getAudioTracks().forEach((track) => {
+        track.enabled = muted;
+      });
+      return !muted;
+    });
+  }, []);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  // Enforce the time limit.
+  useEffect(() => {
+    if (status === "recording" && elapsedSec >= maxDurationSec) {
+      stop();
+    }
+  }, [status, elapsedSec, maxDurationSec, stop]);
+
+  // Never keep the microphone open after the component using it goes away.
+  useEffect(() => {
+    return () => {
+      startIdRef.current++;
+      const recorder = recorderRef.current;
+      if (recorder) {
+        recorder.onstop = null;
+        if (recorder.state !== "inactive") recorder.stop();
+      }
+      releaseStream();
+    };
+  }, [releaseStream]);
+
+  return {
+    status,
+    elapsedSec,
+    maxDurationSec,
+    isMuted,
+    stream,
+    error,
+    clearError,
+    start,
+    stop,
+    pause,
+    resume,
+    cancel,
+    toggleMute,
+  };
+};
@@ -1,6 +1,7 @@
 // app/layout.tsx
 import React, { ReactNode } from "react";
 import "./globals.css"; // import Tailwind + global styles
+import { PlaybackProvider } from "./context/PlaybackContext";
 
 export const metadata = {
   title: "Music Sentiment & Genre Demo",
@@ -15,7 +16,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className="bg-gray-50 text-gray-900">
-        {children}
+        <PlaybackProvider>{children}</PlaybackProvider>
       </body>
     </html>
   );
@@ -1,18 +1,39 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback } from "react";
-import Image from "next/image";
 import { v4 as uuidv4 } from "uuid";
 import { motion, AnimatePresence } from "framer-motion";
 import MusicPlayer from "@/app/components/musicPlayer";
+import { forgetDecodedAudio } from "@/app/components/AudioVisualizer";
 import TopMenu from "@/app/components/TopMenu";
 import AudioUploadControls from "@/app/components/AudioUploadControls";
 import RecordModal from "@/app/components/RecordModal";
 import SpeakerWithWaves from "@/app/components/SpeakerWithWaves";
 import TimelineChart from "@/app/components/TimelineChart";
+import TrajectoryChart from "@/app/components/TrajectoryChart";
+import StatisticsPanel from "@/app/components/StatisticsPanel";
 import GenreAndSeeds from "@/app/components/GenreAndSeeds";
-import { analyzeAudio } from "@/app/sentimentActions";
+import UploadProgress from "@/app/components/UploadProgress";
+import AnalysisErrorNotice from "@/app/components/AnalysisErrorNotice";
+import HistoryDrawer from "@/app/components/HistoryDrawer";
+import ExportMenu from "@/app/components/ExportMenu";
+import ShareButton from "@/app/components/ShareButton";
+import CompareView from "@/app/components/CompareView";
+import BatchQueue, { BatchResult } from "@/app/components/BatchQueue";
+import RegionSelector from "@/app/components/RegionSelector";
+import MicrophoneErrorNotice from "@/app/components/MicrophoneErrorNotice";
+import { analyzeAudio, isCancelled } from "@/app/utils/analysisClient";
+import { AnalysisError } from "@/app/utils/analysisErrors";
+import type { GenreScore } from "@/app/utils/analysisStream";
+import { buildAnalysisForm } from "@/app/utils/audioPreprocess";
+import { LiveAnalysis, startLiveAnalysis } from "@/app/utils/liveAnalysis";
+import { AudioTags, readAudioTags } from "@/app/utils/audioTags";
+import { MoodTag, moodColors } from "@/app/utils/moodTags";
+import { HistoryEntry, saveHistoryEntry, getSaveAudioPreference } from "@/app/utils/historyStore";
 import { shuffleArray } from "@/app/utils/sentimentHelpers";
+import { formatTime } from "@/app/utils/timeFormat";
+import { useRecorder, RecordingSource } from "@/app/hooks/useRecorder";
+import { useAudioDevices } from "@/app/hooks/useAudioDevices";
 
 // Data interfaces
 interface ServerSegment {
@@ -29,33 +50,66 @@ interface ShuffledSentiment {
 
 export default function Home() {
   // Stage management
-  const [stage, setStage] = useState<"idle" | "uploading" | "processing" | "finished">("idle");
+  const [stage, setStage] = useState<"idle" | "selecting" | "uploading" | "processing" | "live" | "finished">("idle");
+  const [compareMode, setCompareMode] = useState(false);
+  // Files of the running batch; a finished batch row can be opened while the queue stays mounted
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [viewingBatchResult, setViewingBatchResult] = useState(false);
 
   // Audio state
-  const [recording, setRecording] = useState(false);
   const [recordedAudioUrl, setRecordedAudioUrl] = useState<string | null>(null);
   const [uploadedAudioUrl, setUploadedAudioUrl] = useState<string | null>(null);
-  const [isMicMuted, setIsMicMuted] = useState(false);
   const [isAudioMuted, setIsAudioMuted] = useState(false);
 
-  // Record modal state
-  const [showRecordModal, setShowRecordModal] = useState(false);
+  // Record modal state, open while recording from that source
+  const [recordSource, setRecordSource] = useState<RecordingSource | null>(null);
+
+  // History drawer state
+  const [showHistory, setShowHistory] = useState(false);
+  const saveToHistoryRef = useRef(false);
+
+  // Chart containers, for image export
+  const circleChartRef = useRef<HTMLDivElement>(null);
+  const timelineChartRef = useRef<HTMLDivElement>(null);
 
   // Microphone selection
-  const [mics, setMics] = useState<MediaDeviceInfo[]>([]);
-  const [selectedMic, setSelectedMic] = useState<string | null>(null);
+  const audioDevices = useAudioDevices();
 
   // Song metadata
   const [songName, setSongName] = useState("Unknown");
   const [artistName, setArtistName] = useState("Unknown");
+  // Tags embedded in the uploaded file, and an object URL for its cover art
+  const [trackTags, setTrackTags] = useState<Omit<AudioTags, "cover">>({});
+  const [coverUrl, setCoverUrl] = useState<string | null>(null);
 
-  // Sentiment data & animation
+  // Sentiment data, filled in as the analysis streams
   const [serverSegments, setServerSegments] = useState<ServerSegment[]>([]);
-  const [animatedSegments, setAnimatedSegments] = useState<ServerSegment[]>([]);
+  const [expectedSegments, setExpectedSegments] = useState<number | null>(null);
   const [predictedGenre, setPredictedGenre] = useState<string | null>(null);
+  const [topGenres, setTopGenres] = useState<GenreScore[] | null>(null);
+  // Mood tag whose time ranges are highlighted on the timeline
+  const [selectedMood, setSelectedMood] = useState<MoodTag | null>(null);
+
+  // Upload progress & cancellation
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [retryAttempt, setRetryAttempt] = useState<number | null>(null);
+  const [preparingAudio, setPreparingAudio] = useState(false);
+  const [preprocessUploads, setPreprocessUploads] = useState(true);
+  const analysisAbortRef = useRef<AbortController | null>(null);
 
   // Error state
   const [error, setError] = useState<string | null>(null);
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null);
+  // Full source audio of the current track, and the last upload (possibly a trimmed region) for retries
+  const lastAudioRef = useRef<Blob | null>(null);
+  const lastRequestRef = useRef<{ audio: Blob; offsetSec: number } | null>(null);
+
+  // Live analysis of the running inline recording, and its latest failed window
+  const liveAnalysisRef = useRef<LiveAnalysis | null>(null);
+  const [liveError, setLiveError] = useState<AnalysisError | null>(null);
+
+  // Audio waiting in the region selector
+  const [pendingAudio, setPendingAudio] = useState<Blob | null>(null);
 
   // Mobile navbar visibility
   const [showMobileNavbar, setShowMobileNavbar] = useState(true);
@@ -75,19 +129,29 @@ export default function Home() {
     return () => window.removeEventListener("scroll", handleScroll);
   }, []);
 
-  // Enumerate devices for recording
   useEffect(() => {
-    navigator.mediaDevices
-      .enumerateDevices()
-      .then((devices) => {
-        const audioInputs = devices.filter((d) => d.kind === "audioinput");
-        setMics(audioInputs);
-        if (audioInputs.length > 0) {
-          setSelectedMic(audioInputs[0].deviceId);
-        }
-      })
-      .catch((error) => console.error("Error enumerating devices:", error));
-  }, []);
+    return () => {
+      if (coverUrl) URL.revokeObjectURL(coverUrl);
+    };
+  }, [coverUrl]);
+
+  // Uploaded, batch, history and recorded audio all get object URLs; release each once it is
+  // closed or replaced.
+  useEffect(() => {
+    return () => {
+      if (!uploadedAudioUrl) return;
+      URL.revokeObjectURL(uploadedAudioUrl);
+      forgetDecodedAudio(uploadedAudioUrl);
+    };
+  }, [uploadedAudioUrl]);
+
+  useEffect(() => {
+    return () => {
+      if (!recordedAudioUrl) return;
+      URL.revokeObjectURL(recordedAudioUrl);
+      forgetDecodedAudio(recordedAudioUrl);
+    };
+  }, [recordedAudioUrl]);
 
   // When stage finishes, scroll to bottom
   useEffect(() => {
@@ -96,36 +160,155 @@ export default function Home() {
     }
   }, [stage]);
 
-  // Animation function for server segments
-  const animateSegments = (segments: ServerSegment[]) => {
-    let currentIdx = 0;
-    const intervalId = setInterval(() => {
-      setAnimatedSegments((prev) => [...prev, segments[currentIdx]]);
-      currentIdx++;
-      if (currentIdx >= segments.length) {
-        clearInterval(intervalId);
-        setStage("finished");
-      }
-    }, 2000);
-  };
-
-  // Process audio file/recording
-  const processAudio = async (audioBlob: Blob) => {
+  // Save freshly completed analyses to the local history
+  useEffect(() => {
+    if (stage !== "finished" || !saveToHistoryRef.current) return;
+    saveToHistoryRef.current = false;
+    const entry: HistoryEntry = {
+      id: uuidv4(),
+      songName,
+      artistName,
+      serverSegments,
+      predictedGenre,
+      topGenres: topGenres ?? undefined,
+      createdAt: Date.now(),
+      audio: getSaveAudioPreference() && lastAudioRef.current ? lastAudioRef.current : undefined,
+    };
+    saveHistoryEntry(entry).catch((err) => console.error("Error saving analysis to history:", err));
+  }, [stage, songName, artistName, serverSegments, predictedGenre, topGenres]);
+
+  // Process audio file/recording, streaming segments in as the server produces them
+  // `offsetSec` is where `audioBlob` starts in the original track; returned times are shifted by it.
+  const processAudio = async (audioBlob: Blob, offsetSec = 0) => {
+    analysisAbortRef.current?.abort();
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
+    lastRequestRef.current = { audio: audioBlob, offsetSec };
+    setAnalysisError(null);
+    setServerSegments([]);
+    setExpectedSegments(null);
+    setPredictedGenre(null);
+    setTopGenres(null);
+    setSelectedMood(null);
+    setUploadProgress(0);
+    setRetryAttempt(null);
+    setStage("uploading");
     try {
-      const formData = new FormData();
-      formData.append("audio", audioBlob);
-      const { segments, genre } = await analyzeAudio(formData);
-      setServerSegments(segments);
-      setPredictedGenre(genre);
-      setStage("uploading");
-      setTimeout(() => {
-        setStage("processing");
-        animateSegments(segments);
-      }, 2000);
+      setPreparingAudio(preprocessUploads);
+      const formData = await buildAnalysisForm(audioBlob, preprocessUploads);
+      setPreparingAudio(false);
+      if (abortController.signal.aborted) return;
+      await analyzeAudio(
+        formData,
+        {
+          onUploadProgress: (fraction) => {
+            setUploadProgress(fraction);
+            setRetryAttempt(null);
+          },
+          onRetry: (attempt) => {
+            setRetryAttempt(attempt);
+            setUploadProgress(0);
+          },
+          onMeta: ({ totalSegments }) => {
+            setExpectedSegments(totalSegments ?? null);
+            setStage("processing");
+          },
+          onSegment: (segment) => {
+            setServerSegments((prev) => [...prev, { ...segment, timeSec: segment.timeSec + offsetSec }]);
+            setStage("processing");
+          },
+          onGenre: (genre, scores) => {
+            setPredictedGenre(genre);
+            setTopGenres(scores ?? null);
+          },
+        },
+        { signal: abortController.signal }
+      );
+      saveToHistoryRef.current = true;
+      setStage("finished");
     } catch (err) {
+      if (isCancelled(err)) return;
       console.error("Error processing audio:", err);
-      setError("There was an error processing your audio. Please try again.");
+      setStage("idle");
+      setAnalysisError(err instanceof AnalysisError ? err : new AnalysisError("server", String(err)));
+    } finally {
+      if (analysisAbortRef.current === abortController) {
+        analysisAbortRef.current = null;
+      }
+    }
+  };
+
+  // Recovery actions for a failed analysis
+  const retryAnalysis = () => {
+    if (lastRequestRef.current) processAudio(lastRequestRef.current.audio, lastRequestRef.current.offsetSec);
+  };
+
+  const chooseAnotherFile = () => {
+    setAnalysisError(null);
+    document.getElementById("upload-audio")?.click();
+  };
+
+  // Reopen a saved analysis straight into the finished view
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    resetApp();
+    setShowHistory(false);
+    setSongName(entry.songName);
+    setArtistName(entry.artistName);
+    setServerSegments(entry.serverSegments);
+    setPredictedGenre(entry.predictedGenre);
+    setTopGenres(entry.topGenres ?? null);
+    lastAudioRef.current = entry.audio ?? null;
+    if (entry.audio) {
+      setUploadedAudioUrl(URL.createObjectURL(entry.audio));
     }
+    setStage("finished");
+  };
+
+  // Open a finished batch row in the full view; the queue keeps running behind it
+  const openBatchResult = ({ file, segments, genre, topGenres: scores }: BatchResult) => {
+    setSongName(file.name);
+    setArtistName("Unknown");
+    setTrackTags({});
+    setCoverUrl(null);
+    setServerSegments(segments);
+    setPredictedGenre(genre);
+    setTopGenres(scores);
+    setSelectedMood(null);
+    lastAudioRef.current = file;
+    setRecordedAudioUrl(null);
+    setUploadedAudioUrl(URL.createObjectURL(file));
+    setViewingBatchResult(true);
+    setStage("finished");
+  };
+
+  const backToBatch = () => {
+    setViewingBatchResult(false);
+    setUploadedAudioUrl(null);
+    setServerSegments([]);
+    setPredictedGenre(null);
+    setTopGenres(null);
+    setStage("idle");
+  };
+
+  // Abort the in-flight analysis and return to idle
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    resetApp();
+  };
+
+  // Let the user pick the region to analyze before uploading
+  const selectRegion = (audio: Blob) => {
+    lastAudioRef.current = audio;
+    setTrackTags({});
+    setCoverUrl(null);
+    setPendingAudio(audio);
+    setStage("selecting");
+  };
+
+  const analyzeRegion = (audio: Blob, offsetSec: number) => {
+    setPendingAudio(null);
+    processAudio(audio, offsetSec);
   };
 
   // Handle file upload from idle controls
@@ -133,67 +316,87 @@ export default function Home() {
     if (!e.target.files || e.target.files.length === 0) return;
     const file = e.target.files[0];
     if (!file.type.startsWith("audio/")) {
-      setError("Please upload a valid audio file.");
+      setAnalysisError(new AnalysisError("unsupported-audio", `"${file.name}" is not an audio file.`));
       return;
     }
     setError(null);
+    setAnalysisError(null);
+    setRecordedAudioUrl(null);
+    setUploadedAudioUrl(URL.createObjectURL(file));
     setSongName(file.name);
     setArtistName("Unknown");
-    processAudio(file);
+    selectRegion(file);
+    readAudioTags(file).then(({ cover, ...tags }) => {
+      // Ignore tags that arrive after another track was picked.
+      if (lastAudioRef.current !== file) return;
+      setTrackTags(tags);
+      if (tags.title) setSongName(tags.title);
+      if (tags.artist) setArtistName(tags.artist);
+      if (cover) setCoverUrl(URL.createObjectURL(cover));
+    });
   };
 
-  // Inline recording functions
-  const mediaRecorderRefInline = useRef<MediaRecorder | null>(null);
-  const inlineMediaStreamRef = useRef<MediaStream | null>(null);
-  const startRecordingInline = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: selectedMic ? { deviceId: { exact: selectedMic } } : true,
-      });
-      inlineMediaStreamRef.current = stream;
-      const mimeType = MediaRecorder.isTypeSupported("audio/webm;codecs=opus")
-        ? "audio/webm;codecs=opus"
-        : "audio/webm";
-      const options = { mimeType };
-      const recorder = new MediaRecorder(stream, options);
-      let chunks: BlobPart[] = [];
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunks.push(e.data);
-        }
-      };
-      recorder.onstop = () => {
-        const blob = new Blob(chunks, { type: options.mimeType });
-        const url = URL.createObjectURL(blob);
-        setRecordedAudioUrl(url);
-        setStage("uploading");
-        processAudio(blob);
-      };
-      recorder.start();
-      mediaRecorderRefInline.current = recorder;
-      setRecording(true);
-    } catch (err) {
-      console.error("Error accessing microphone:", err);
-      setError("Could not access microphone.");
-    }
-  };
-
-  const stopRecordingInline = () => {
-    if (mediaRecorderRefInline.current && recording) {
-      mediaRecorderRefInline.current.stop();
-      inlineMediaStreamRef.current?.getTracks().forEach((track) => track.stop());
-      setRecording(false);
+  // Inline recording, used for live analysis
+  const liveModeRef = useRef(false);
+  const inlineRecorder = useRecorder({
+    deviceId: audioDevices.selectedMic,
+    onComplete: ({ blob }) => {
+      setRecordedAudioUrl(URL.createObjectURL(blob));
+      if (liveModeRef.current) {
+        lastAudioRef.current = blob;
+        saveToHistoryRef.current = true;
+        setStage("finished");
+      } else {
+        selectRegion(blob);
+      }
+      liveAnalysisRef.current?.stop();
+      liveAnalysisRef.current = null;
+    },
+  });
+
+  // With `live`, segments are analyzed while recording and the result is final once stopped.
+  const startRecordingInline = async (live = false) => {
+    liveModeRef.current = live;
+    const stream = await inlineRecorder.start();
+    if (!stream) return;
+    audioDevices.refresh();
+    if (live) {
+      setServerSegments([]);
+      setExpectedSegments(null);
+      setPredictedGenre(null);
+      setTopGenres(null);
+      setLiveError(null);
+      setSongName("Live recording");
+      setArtistName("Unknown");
+      setTrackTags({});
+      setCoverUrl(null);
+      setStage("live");
+      try {
+        liveAnalysisRef.current = await startLiveAnalysis(stream, {
+          onSegment: (segment) => {
+            setServerSegments((prev) => [...prev, segment]);
+            setLiveError(null);
+          },
+          onGenre: (genre, scores) => {
+            setPredictedGenre(genre);
+            setTopGenres(scores ?? null);
+          },
+          onError: setLiveError,
+        });
+      } catch (err) {
+        console.error("Error starting live analysis:", err);
+        inlineRecorder.cancel();
+        setStage("idle");
+        setError("Could not start live analysis.");
+      }
     }
   };
 
-  const toggleMicMute = () => {
-    if (inlineMediaStreamRef.current) {
-      const newMuted = !isMicMuted;
-      inlineMediaStreamRef.current.getAudioTracks().forEach((track) => {
-        track.enabled = !newMuted;
-      });
-      setIsMicMuted(newMuted);
-    }
+  // Stop a live session without turning it into a finished analysis
+  const discardLiveRecording = () => {
+    inlineRecorder.cancel();
+    liveAnalysisRef.current?.stop();
+    liveAnalysisRef.current = null;
   };
 
   const toggleAudioMute = () => {
@@ -202,12 +405,25 @@ export default function Home() {
 
   // Reset app to initial state
   const resetApp = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    discardLiveRecording();
+    inlineRecorder.clearError();
     setStage("idle");
+    setPendingAudio(null);
+    setCompareMode(false);
+    setBatchFiles(null);
+    setViewingBatchResult(false);
+    setAnalysisError(null);
     setRecordedAudioUrl(null);
     setUploadedAudioUrl(null);
     setPredictedGenre(null);
+    setTopGenres(null);
+    setSelectedMood(null);
     setServerSegments([]);
-    setAnimatedSegments([]);
+    setExpectedSegments(null);
+    setTrackTags({});
+    setCoverUrl(null);
   };
 
   // Render MusicPlayer if an audio URL is available
@@ -219,6 +435,11 @@ export default function Home() {
         audioUrl={audioUrl}
         songName={songName}
         artistName={artistName}
+        album={trackTags.album}
+        year={trackTags.year}
+        coverUrl={coverUrl}
+        onSongNameChange={trackTags.title ? undefined : setSongName}
+        onArtistNameChange={trackTags.artist ? undefined : setArtistName}
         autoPlay={stage === "processing"}
       />
     );
@@ -231,20 +452,21 @@ export default function Home() {
         isAudioMuted={isAudioMuted}
         toggleAudioMute={toggleAudioMute}
         resetApp={resetApp}
+        openHistory={() => setShowHistory(true)}
         showNavbar={showMobileNavbar}
       />
 
       <h1 className="text-3xl font-bold mb-8">Music Sentiment & Genre Analyzer</h1>
 
       {/* Mute toggle for inline recording */}
-      {recording && (
+      {inlineRecorder.status !== "idle" && (
         <div className="fixed top-4 left-16 z-50">
           <button
-            onClick={toggleMicMute}
+            onClick={inlineRecorder.toggleMute}
             className="bg-gray-800 text-white p-2 rounded-full focus:outline-none"
             aria-label="Toggle Microphone Mute"
           >
-            {isMicMuted ? (
+            {inlineRecorder.isMuted ? (
               <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 20 20">
                 <path d="M9 4.879V2a1 1 0 112 0v2.879l1.292-1.293a1 1 0 111.415 1.414L12.414 7l2.293 2.293a1 1 0 01-1.415 1.414L11 8.414l-2.293 2.293a1 1 0 01-1.414-1.414L9.586 7 7.293 4.707a1 1 0 111.414-1.414L9 4.879z" />
               </svg>
@@ -257,63 +479,188 @@ export default function Home() {
         </div>
       )}
 
+      {/* COMPARE: two tracks side by side */}
+      {compareMode && <CompareView preprocess={preprocessUploads} onExit={() => setCompareMode(false)} />}
+
+      {/* BATCH: queue of files, hidden while one of its results is open */}
+      {batchFiles && (
+        <div className={`w-full ${stage === "idle" ? "" : "hidden"}`}>
+          <BatchQueue
+            files={batchFiles}
+            preprocess={preprocessUploads}
+            onOpenResult={openBatchResult}
+            onExit={() => setBatchFiles(null)}
+          />
+        </div>
+      )}
+
       {/* IDLE: Upload & Record */}
-      {stage === "idle" && (
-        <AudioUploadControls onFileUpload={handleFileUpload} onRecordClick={() => setShowRecordModal(true)} error={error} />
+      {stage === "idle" && !compareMode && !batchFiles && (
+        <div className="flex flex-col items-center gap-6 w-full">
+          <AudioUploadControls
+            onFileUpload={handleFileUpload}
+            onRecordClick={() => setRecordSource("microphone")}
+            onCaptureClick={() => setRecordSource("display")}
+            onCompareClick={() => setCompareMode(true)}
+            onBatchSelect={setBatchFiles}
+            preprocess={preprocessUploads}
+            onPreprocessChange={setPreprocessUploads}
+            error={error}
+          />
+          {inlineRecorder.error && (
+            <div className="w-full max-w-md">
+              <MicrophoneErrorNotice
+                error={inlineRecorder.error}
+                onRetry={inlineRecorder.error.kind === "disconnected" ? undefined : () => startRecordingInline(true)}
+                onDismiss={inlineRecorder.clearError}
+              />
+            </div>
+          )}
+          {analysisError && (
+            <AnalysisErrorNotice
+              error={analysisError}
+              onRetry={lastRequestRef.current ? retryAnalysis : undefined}
+              onChooseAnother={chooseAnotherFile}
+              onDismiss={() => setAnalysisError(null)}
+            />
+          )}
+        </div>
+      )}
+
+      {/* SELECTING: choose the region to analyze */}
+      {stage === "selecting" && pendingAudio && (
+        <RegionSelector audio={pendingAudio} onAnalyze={analyzeRegion} onCancel={resetApp} />
       )}
 
       {/* UPLOADING */}
       {stage === "uploading" && (
-        <div className="flex flex-col items-center space-y-4 transition-all duration-500">
-          <p className="text-lg text-gray-700 animate-pulse">Uploading...</p>
-          <Image src="/speaker.svg" alt="Speaker" width={120} height={120} className="relative" />
-        </div>
+        <UploadProgress
+          progress={uploadProgress}
+          preparing={preparingAudio}
+          retryAttempt={retryAttempt}
+          onCancel={cancelAnalysis}
+        />
       )}
 
       {/* PROCESSING: Audio auto-plays */}
       {stage === "processing" && (
         <div className="flex flex-col items-center">
-          <SpeakerWithWaves stage={stage} animatedSegments={animatedSegments} songName={songName} artistName={artistName} />
+          <SpeakerWithWaves stage={stage} animatedSegments={serverSegments} songName={songName} artistName={artistName} />
+          <p className="text-sm text-gray-600 mb-4">
+            {expectedSegments
+              ? `Analyzed ${serverSegments.length} of ${expectedSegments} segments`
+              : `Analyzed ${serverSegments.length} segments`}
+          </p>
           {renderMusicPlayer()}
+          <button onClick={cancelAnalysis} className="mt-4 text-sm text-red-600 hover:underline">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* LIVE: segments arrive while the microphone is still recording */}
+      {stage === "live" && (
+        <div className="flex flex-col items-center gap-4 w-full max-w-5xl mx-auto">
+          <SpeakerWithWaves stage="processing" animatedSegments={serverSegments} songName={songName} artistName={artistName} />
+          <p className="text-sm text-gray-600">
+            Live · {formatTime(inlineRecorder.elapsedSec)} / {formatTime(inlineRecorder.maxDurationSec)} ·{" "}
+            {serverSegments.length} segments{predictedGenre ? ` · sounds like ${predictedGenre}` : ""}
+          </p>
+          {liveError && <p className="text-sm text-amber-600">Skipped a window: {liveError.message}</p>}
+          <div className="w-full flex justify-center">
+            <TimelineChart animatedSegments={serverSegments} />
+          </div>
+          <div className="flex gap-4">
+            <button
+              onClick={inlineRecorder.stop}
+              className="bg-red-600 text-white px-6 py-3 rounded-full hover:bg-red-500 transition"
+            >
+              Stop & Finish
+            </button>
+            <button onClick={resetApp} className="text-sm text-red-600 hover:underline">
+              Discard
+            </button>
+          </div>
         </div>
       )}
 
       {/* FINISHED: Audio does not auto-play */}
       {stage === "finished" && (
         <div className="flex flex-col gap-8 w-full max-w-5xl mx-auto items-center">
-          <SpeakerWithWaves stage={stage} animatedSegments={animatedSegments} songName={songName} artistName={artistName} />
+          {inlineRecorder.error && (
+            <div className="w-full max-w-md">
+              <MicrophoneErrorNotice error={inlineRecorder.error} onDismiss={inlineRecorder.clearError} />
+            </div>
+          )}
+          <div ref={circleChartRef}>
+            <SpeakerWithWaves stage={stage} animatedSegments={serverSegments} songName={songName} artistName={artistName} />
+          </div>
           {renderMusicPlayer()}
+          <div className="w-full flex justify-end gap-3">
+            {viewingBatchResult && (
+              <button onClick={backToBatch} className="mr-auto text-sm text-indigo-600 hover:underline">
+                ← Back to batch
+              </button>
+            )}
+            <ShareButton
+              songName={songName}
+              artistName={artistName}
+              predictedGenre={predictedGenre}
+              serverSegments={serverSegments}
+            />
+            <ExportMenu
+              result={{ songName, artistName, genre: predictedGenre, segments: serverSegments }}
+              timelineRef={timelineChartRef}
+              circleRef={circleChartRef}
+            />
+          </div>
           <div className="flex flex-col md:flex-row gap-8 items-stretch">
             <div className="flex flex-col gap-8 md:w-1/3 items-center">
-              <GenreAndSeeds genre={predictedGenre || undefined} />
+              <GenreAndSeeds
+                genre={predictedGenre || undefined}
+                topGenres={topGenres}
+                segments={serverSegments}
+                selectedMood={selectedMood?.label}
+                onSelectMood={setSelectedMood}
+              />
             </div>
-            <div className="md:w-2/3 flex justify-center w-full">
-              <TimelineChart animatedSegments={animatedSegments} />
+            <div ref={timelineChartRef} className="md:w-2/3 flex justify-center w-full">
+              <TimelineChart
+                animatedSegments={serverSegments}
+                highlight={selectedMood ? { ranges: selectedMood.ranges, color: moodColors[selectedMood.label] } : undefined}
+              />
             </div>
           </div>
+          <TrajectoryChart segments={serverSegments} />
+          <StatisticsPanel segments={serverSegments} />
         </div>
       )}
 
       {/* Record Modal */}
       <AnimatePresence>
-        {showRecordModal && (
+        {recordSource && (
           <RecordModal
-            onClose={() => setShowRecordModal(false)}
-            onRecordingComplete={(url) => {
-              setRecordedAudioUrl(url);
-              setShowRecordModal(false);
-              setStage("uploading");
-              fetch(url)
-                .then((res) => res.blob())
-                .then(processAudio);
+            source={recordSource}
+            onClose={() => setRecordSource(null)}
+            onRecordingComplete={(audio) => {
+              setRecordedAudioUrl(URL.createObjectURL(audio));
+              setRecordSource(null);
+              selectRegion(audio);
+            }}
+            onStartLive={() => {
+              setRecordSource(null);
+              startRecordingInline(true);
             }}
-            mics={mics}
-            selectedMic={selectedMic}
-            setSelectedMic={(id) => setSelectedMic(id)}
+            devices={audioDevices}
           />
         )}
       </AnimatePresence>
 
+      {/* History Drawer */}
+      <AnimatePresence>
+        {showHistory && <HistoryDrawer onClose={() => setShowHistory(false)} onOpenEntry={openHistoryEntry} />}
+      </AnimatePresence>
+
       {/* Tailwind CSS Animations */}
       <style jsx>{`
         @keyframes rotate-slow {
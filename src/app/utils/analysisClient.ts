@@ -0,0 +1,203 @@
+import axios from "axios";
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import { AnalysisError, AnalysisErrorBody, isAnalysisErrorKind, kindForStatus } from "@/app/utils/analysisErrors";
+import { GenreScore, createEventParser } from "@/app/utils/analysisStream";
+import { validateEvent } from "@/app/utils/analysisValidation";
+
+export interface AnalysisHandlers {
+  onMeta?: (meta: { totalSegments?: number; durationSec?: number }) => void;
+  onSegment: (segment: ServerSegment) => void;
+  onGenre: (genre: string, topGenres?: GenreScore[]) => void;
+  // Fraction of the upload sent so far, between 0 and 1.
+  onUploadProgress?: (fraction: number) => void;
+  onRetry?: (attempt: number, delayMs: number) => void;
+}
+
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  maxRetries?: number;
+  // Abort an attempt when neither upload nor download has progressed for this long.
+  idleTimeoutMs?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_IDLE_TIMEOUT_MS = 60000;
+const BASE_RETRY_DELAY_MS = 1000;
+
+class IdleTimeoutError extends Error {}
+
+export const isCancelled = (err: unknown): boolean => axios.isCancel(err);
+
+const readErrorBody = (data: unknown): AnalysisErrorBody | null => {
+  if (typeof data !== "string") return null;
+  try {
+    const body = JSON.parse(data);
+    return isAnalysisErrorKind(body?.kind) && typeof body.message === "string" ? body : null;
+  } catch {
+    return null;
+  }
+};
+
+// Classifies whatever went wrong into the AnalysisError taxonomy.
+const toAnalysisError = (err: unknown): AnalysisError => {
+  if (err instanceof AnalysisError) return err;
+  if (err instanceof IdleTimeoutError) return new AnalysisError("network", err.message, { cause: err });
+  if (axios.isAxiosError(err)) {
+    if (!err.response) {
+      return new AnalysisError("network", "Could not reach the analysis service", { cause: err });
+    }
+    const body = readErrorBody(err.response.data);
+    const kind = body?.kind ?? kindForStatus(err.response.status);
+    return new AnalysisError(kind, body?.message ?? `Analysis failed with status ${err.response.status}`, { cause: err });
+  }
+  return new AnalysisError("server", err instanceof Error ? err.message : "Analysis failed", { cause: err });
+};
+
+// 5xx, throttling, timeouts and dropped connections are worth another attempt; anything else is not.
+const isTransient = (err: unknown): boolean => {
+  if (err instanceof IdleTimeoutError) return true;
+  if (axios.isCancel(err) || !axios.isAxiosError(err)) return false;
+  if (!err.response) return true;
+  const kind = readErrorBody(err.response.data)?.kind;
+  if (kind === "invalid-payload" || kind === "unsupported-audio") return false;
+  const status = err.response.status;
+  return status >= 500 || status === 408 || status === 429;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError("Analysis cancelled"));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new axios.CanceledError("Analysis cancelled"));
+      },
+      { once: true }
+    );
+  });
+
+// One upload + stream round trip. Every event handed to the handlers is counted in `delivered`.
+const attemptAnalysis = async (
+  formData: FormData,
+  handlers: AnalysisHandlers,
+  options: AnalysisOptions,
+  delivered: { count: number }
+): Promise<void> => {
+  let consumed = 0;
+  let lastSegment: ServerSegment | undefined;
+  let receivedGenre = false;
+  let streamError: AnalysisError | null = null;
+
+  const parser = createEventParser((raw) => {
+    const event = validateEvent(raw, lastSegment);
+    if (!event) return;
+    delivered.count++;
+    switch (event.type) {
+      case "meta":
+        handlers.onMeta?.(event);
+        break;
+      case "segment":
+        lastSegment = event.segment;
+        handlers.onSegment(event.segment);
+        break;
+      case "genre":
+        receivedGenre = true;
+        handlers.onGenre(event.genre, event.topGenres);
+        break;
+      case "error":
+        streamError = new AnalysisError(event.kind ?? "server", event.message);
+        break;
+    }
+  });
+
+  // The XHR adapter exposes the partial response text on every download progress tick.
+  const consume = (text: string) => {
+    if (text.length <= consumed) return;
+    parser.push(text.slice(consumed));
+    consumed = text.length;
+  };
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (options.signal?.aborted) abort();
+  options.signal?.addEventListener("abort", abort, { once: true });
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  // Errors thrown inside XHR progress callbacks would be swallowed, so they are parked here.
+  let parseError: unknown = null;
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS);
+  };
+
+  try {
+    resetIdleTimer();
+    const response = await axios.post<string>("/api/analyze", formData, {
+      responseType: "text",
+      signal: controller.signal,
+      onUploadProgress: (e) => {
+        resetIdleTimer();
+        if (e.total) handlers.onUploadProgress?.(e.loaded / e.total);
+      },
+      onDownloadProgress: (e) => {
+        resetIdleTimer();
+        const xhr = (e.event as ProgressEvent | undefined)?.target as XMLHttpRequest | undefined;
+        if (!xhr || typeof xhr.responseText !== "string" || parseError) return;
+        try {
+          consume(xhr.responseText);
+        } catch (err) {
+          parseError = err;
+          controller.abort();
+        }
+      },
+    });
+    consume(response.data);
+    parser.flush();
+  } catch (err) {
+    if (parseError) throw parseError;
+    if (timedOut) throw new IdleTimeoutError("The analysis server stopped responding");
+    throw err;
+  } finally {
+    clearTimeout(idleTimer);
+    options.signal?.removeEventListener("abort", abort);
+  }
+
+  if (streamError) throw streamError;
+  if (!receivedGenre) {
+    throw new AnalysisError("invalid-payload", "The analysis ended without returning a genre");
+  }
+};
+
+// Uploads audio to /api/analyze and dispatches each streamed event as soon as it arrives.
+// Transient failures are retried with exponential backoff, but only while nothing has been
+// delivered yet, so handlers never see the same segment twice. Resolves once the stream is complete;
+// failures are rejected as AnalysisError, cancellation as axios' CanceledError.
+export const analyzeAudio = async (
+  formData: FormData,
+  handlers: AnalysisHandlers,
+  options: AnalysisOptions = {}
+): Promise<void> => {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const delivered = { count: 0 };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await attemptAnalysis(formData, handlers, options, delivered);
+      return;
+    } catch (err) {
+      if (isCancelled(err)) throw err;
+      if (attempt >= maxRetries || delivered.count > 0 || !isTransient(err)) throw toAnalysisError(err);
+      const delayMs = BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * 250;
+      handlers.onRetry?.(attempt + 1, delayMs);
+      await wait(delayMs, options.signal);
+    }
+  }
+};
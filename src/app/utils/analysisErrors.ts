@@ -0,0 +1,27 @@
+export type AnalysisErrorKind = "network" | "server" | "invalid-payload" | "unsupported-audio";
+
+// Error raised for every failed analysis, classified so the UI can offer the right recovery.
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+
+  constructor(kind: AnalysisErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "AnalysisError";
+    this.kind = kind;
+  }
+}
+
+// Body of a failed /api/analyze response.
+export interface AnalysisErrorBody {
+  kind: AnalysisErrorKind;
+  message: string;
+}
+
+const errorKinds: AnalysisErrorKind[] = ["network", "server", "invalid-payload", "unsupported-audio"];
+
+export const isAnalysisErrorKind = (value: unknown): value is AnalysisErrorKind =>
+  typeof value === "string" && (errorKinds as string[]).includes(value);
+
+// Maps an HTTP status from the analysis server onto an error kind.
+export const kindForStatus = (status: number): AnalysisErrorKind =>
+  status === 400 || status === 415 || status === 422 ? "unsupported-audio" : "server";
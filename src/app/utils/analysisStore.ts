@@ -0,0 +1,93 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+
+// Server-side storage for shared analyses. The backend is chosen with ANALYSIS_STORE:
+// "file" (default) writes one JSON file per analysis under ANALYSIS_STORE_DIR,
+// "memory" keeps them in the server process. Further backends implement AnalysisStore
+// and are added to `storeFactories`.
+
+export interface StoredAnalysis {
+  id: string;
+  songName: string;
+  artistName: string;
+  predictedGenre: string | null;
+  serverSegments: ServerSegment[];
+  createdAt: number;
+}
+
+export type NewAnalysis = Omit<StoredAnalysis, "id" | "createdAt">;
+
+export interface AnalysisStore {
+  save(analysis: NewAnalysis): Promise<StoredAnalysis>;
+  get(id: string): Promise<StoredAnalysis | null>;
+}
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export const isAnalysisId = (id: string): boolean => ID_PATTERN.test(id);
+
+const createRecord = (analysis: NewAnalysis): StoredAnalysis => ({
+  ...analysis,
+  id: randomUUID(),
+  createdAt: Date.now(),
+});
+
+class FileAnalysisStore implements AnalysisStore {
+  constructor(private readonly dir: string) {}
+
+  private filePath(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async save(analysis: NewAnalysis) {
+    const record = createRecord(analysis);
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.filePath(record.id), JSON.stringify(record));
+    return record;
+  }
+
+  async get(id: string) {
+    if (!isAnalysisId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), "utf8")) as StoredAnalysis;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+}
+
+class MemoryAnalysisStore implements AnalysisStore {
+  private readonly records = new Map<string, StoredAnalysis>();
+
+  async save(analysis: NewAnalysis) {
+    const record = createRecord(analysis);
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  async get(id: string) {
+    return this.records.get(id) ?? null;
+  }
+}
+
+const storeFactories: Record<string, () => AnalysisStore> = {
+  file: () => new FileAnalysisStore(process.env.ANALYSIS_STORE_DIR || path.join(process.cwd(), ".data", "analyses")),
+  memory: () => new MemoryAnalysisStore(),
+};
+
+let store: AnalysisStore | null = null;
+
+export const getAnalysisStore = (): AnalysisStore => {
+  if (!store) {
+    const kind = process.env.ANALYSIS_STORE || "file";
+    const factory = storeFactories[kind];
+    if (!factory) {
+      throw new Error(`Unknown ANALYSIS_STORE "${kind}", expected one of: ${Object.keys(storeFactories).join(", ")}`);
+    }
+    store = factory();
+  }
+  return store;
+};
@@ -0,0 +1,68 @@
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import { AnalysisError, AnalysisErrorKind } from "@/app/utils/analysisErrors";
+
+// Events sent from /api/analyze, one JSON object per line (NDJSON).
+// A stream starts with an optional "meta" event, carries one "segment" event per
+// analyzed window as soon as it is produced, then a single "genre" event and "done".
+// The genre event may carry the model's top-k genres, most confident first.
+export interface GenreScore {
+  genre: string;
+  confidence: number;
+}
+
+export type AnalysisEvent =
+  | { type: "meta"; totalSegments?: number; durationSec?: number }
+  | { type: "segment"; segment: ServerSegment }
+  | { type: "genre"; genre: string; topGenres?: GenreScore[] }
+  | { type: "done" }
+  | { type: "error"; message: string; kind?: AnalysisErrorKind };
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+export const encodeEvent = (event: AnalysisEvent): string => `${JSON.stringify(event)}\n`;
+
+// Turns a full (non-streaming) `{ segments, genre, topGenres? }` payload into the equivalent event sequence.
+export const payloadToEvents = (payload: {
+  segments: ServerSegment[];
+  genre: string;
+  topGenres?: GenreScore[];
+}): AnalysisEvent[] => [
+  { type: "meta", totalSegments: payload.segments.length },
+  ...payload.segments.map((segment): AnalysisEvent => ({ type: "segment", segment })),
+  { type: "genre", genre: payload.genre, topGenres: payload.topGenres },
+  { type: "done" },
+];
+
+// Incremental NDJSON parser: feed it text as it arrives, each complete line is emitted
+// as a parsed but unvalidated value.
+export const createEventParser = (onEvent: (event: unknown) => void) => {
+  let buffer = "";
+
+  const emitLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (err) {
+      throw new AnalysisError("invalid-payload", "The analysis stream contained malformed JSON", { cause: err });
+    }
+    onEvent(parsed);
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      let newlineIdx = buffer.indexOf("\n");
+      while (newlineIdx !== -1) {
+        emitLine(buffer.slice(0, newlineIdx));
+        buffer = buffer.slice(newlineIdx + 1);
+        newlineIdx = buffer.indexOf("\n");
+      }
+    },
+    flush() {
+      emitLine(buffer);
+      buffer = "";
+    },
+  };
+};
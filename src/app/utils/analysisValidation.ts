@@ -0,0 +1,104 @@
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import { AnalysisError, isAnalysisErrorKind } from "@/app/utils/analysisErrors";
+import type { AnalysisEvent, GenreScore } from "@/app/utils/analysisStream";
+
+const invalid = (message: string) => new AnalysisError("invalid-payload", message);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const readUnitValue = (segment: Record<string, unknown>, key: "valence" | "arousal" | "dominance") => {
+  const value = segment[key];
+  if (!isFiniteNumber(value) || value < 0 || value > 1) {
+    throw invalid(`Segment ${key} must be a number between 0 and 1, got ${String(value)}`);
+  }
+  return value;
+};
+
+// Checks one segment; `previous` is the last accepted segment, used to enforce increasing timeSec.
+export const validateSegment = (value: unknown, previous?: ServerSegment): ServerSegment => {
+  if (!isRecord(value)) throw invalid("Segment must be an object");
+  const { timeSec } = value;
+  if (!isFiniteNumber(timeSec) || timeSec < 0) {
+    throw invalid(`Segment timeSec must be a non-negative number, got ${String(timeSec)}`);
+  }
+  if (previous && timeSec <= previous.timeSec) {
+    throw invalid(`Segments must be sorted by timeSec (${timeSec} follows ${previous.timeSec})`);
+  }
+  return {
+    timeSec,
+    valence: readUnitValue(value, "valence"),
+    arousal: readUnitValue(value, "arousal"),
+    dominance: readUnitValue(value, "dominance"),
+  };
+};
+
+export const validateGenre = (value: unknown): string => {
+  if (typeof value !== "string" || value.trim() === "") throw invalid("Genre must be a non-empty string");
+  return value;
+};
+
+// Optional top-k genres; returned sorted by confidence, most confident first.
+export const validateTopGenres = (value: unknown): GenreScore[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw invalid("topGenres must be an array");
+  return value
+    .map((entry): GenreScore => {
+      if (!isRecord(entry)) throw invalid("topGenres entries must be objects");
+      const { confidence } = entry;
+      if (!isFiniteNumber(confidence) || confidence < 0 || confidence > 1) {
+        throw invalid(`Genre confidence must be a number between 0 and 1, got ${String(confidence)}`);
+      }
+      return { genre: validateGenre(entry.genre), confidence };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+// Validates a complete `{ segments, genre, topGenres? }` payload as returned by non-streaming servers.
+export const validatePayload = (
+  value: unknown
+): { segments: ServerSegment[]; genre: string; topGenres?: GenreScore[] } => {
+  if (!isRecord(value)) throw invalid("Analysis result must be an object");
+  if (!Array.isArray(value.segments)) throw invalid("Analysis result is missing its segments");
+  const segments: ServerSegment[] = [];
+  value.segments.forEach((segment) => segments.push(validateSegment(segment, segments[segments.length - 1])));
+  return { segments, genre: validateGenre(value.genre), topGenres: validateTopGenres(value.topGenres) };
+};
+
+// Validates one streamed event against the segments accepted so far.
+// Returns null for event types this client does not know, so newer servers stay compatible.
+export const validateEvent = (value: unknown, previous?: ServerSegment): AnalysisEvent | null => {
+  if (!isRecord(value)) throw invalid("Stream event must be an object");
+  switch (value.type) {
+    case "meta": {
+      const { totalSegments, durationSec } = value;
+      if (totalSegments !== undefined && (!Number.isInteger(totalSegments) || (totalSegments as number) < 0)) {
+        throw invalid("meta.totalSegments must be a non-negative integer");
+      }
+      if (durationSec !== undefined && (!isFiniteNumber(durationSec) || durationSec < 0)) {
+        throw invalid("meta.durationSec must be a non-negative number");
+      }
+      return {
+        type: "meta",
+        totalSegments: totalSegments as number | undefined,
+        durationSec: durationSec as number | undefined,
+      };
+    }
+    case "segment":
+      return { type: "segment", segment: validateSegment(value.segment, previous) };
+    case "genre":
+      return { type: "genre", genre: validateGenre(value.genre), topGenres: validateTopGenres(value.topGenres) };
+    case "done":
+      return { type: "done" };
+    case "error":
+      return {
+        type: "error",
+        message: typeof value.message === "string" ? value.message : "Analysis failed",
+        kind: isAnalysisErrorKind(value.kind) ? value.kind : undefined,
+      };
+    default:
+      return null;
+  }
+};
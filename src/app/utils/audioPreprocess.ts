@@ -0,0 +1,148 @@
+// Browser-side preparation of audio before upload: decode with Web Audio, downmix to mono,
+// resample to the rate the model expects and re-encode as 16-bit PCM WAV.
+
+export const ANALYSIS_SAMPLE_RATE = Number(process.env.NEXT_PUBLIC_ANALYSIS_SAMPLE_RATE) || 22050;
+
+export const decodeAudio = async (blob: Blob): Promise<AudioBuffer> => {
+  const context = new AudioContext();
+  try {
+    return await context.decodeAudioData(await blob.arrayBuffer());
+  } finally {
+    context.close();
+  }
+};
+
+// Renders the buffer through an offline context, which mixes all channels down and resamples.
+export const toMono = async (buffer: AudioBuffer, sampleRate = ANALYSIS_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.ceil(buffer.duration * sampleRate));
+  const offline = new OfflineAudioContext(1, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+};
+
+// Copies the [startSec, endSec) range of a buffer into a new one.
+export const sliceAudioBuffer = (buffer: AudioBuffer, startSec: number, endSec: number): AudioBuffer => {
+  const start = Math.max(0, Math.floor(startSec * buffer.sampleRate));
+  const end = Math.min(buffer.length, Math.ceil(endSec * buffer.sampleRate));
+  const slice = new AudioBuffer({
+    length: Math.max(1, end - start),
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    slice.copyToChannel(buffer.getChannelData(ch).subarray(start, end), ch);
+  }
+  return slice;
+};
+
+const SILENCE_THRESHOLD_DB = -50;
+const SILENCE_PADDING_SEC = 0.2;
+
+// Start and end, in seconds, of the span between the first and last sample louder than
+// `thresholdDb` on any channel, padded on both sides. Null when the whole buffer is silent.
+export const findSoundBounds = (
+  buffer: AudioBuffer,
+  thresholdDb = SILENCE_THRESHOLD_DB,
+  paddingSec = SILENCE_PADDING_SEC
+): { startSec: number; endSec: number } | null => {
+  const threshold = 10 ** (thresholdDb / 20);
+  let first = buffer.length;
+  let last = -1;
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < first; i++) {
+      if (Math.abs(data[i]) > threshold) {
+        first = i;
+        break;
+      }
+    }
+    for (let i = data.length - 1; i > last; i--) {
+      if (Math.abs(data[i]) > threshold) {
+        last = i;
+        break;
+      }
+    }
+  }
+  if (last < first) return null;
+  return {
+    startSec: Math.max(0, first / buffer.sampleRate - paddingSec),
+    endSec: Math.min(buffer.duration, (last + 1) / buffer.sampleRate + paddingSec),
+  };
+};
+
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const dataSize = frames * channels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, ch) => buffer.getChannelData(ch));
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      const sample = Math.max(-1, Math.min(1, channelData[ch][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: "audio/wav" });
+};
+
+// Full pipeline: any format the browser can decode in, mono WAV at `sampleRate` out.
+export const preprocessAudio = async (blob: Blob, sampleRate = ANALYSIS_SAMPLE_RATE): Promise<Blob> => {
+  const decoded = await decodeAudio(blob);
+  return encodeWav(await toMono(decoded, sampleRate));
+};
+
+// Less silence than this isn't worth re-encoding the recording for.
+const MIN_TRIM_SEC = 1;
+
+// Cuts leading and trailing silence, returning the analysis format (mono WAV at
+// ANALYSIS_SAMPLE_RATE). Recordings that are all silence, or have little to cut, come back
+// unchanged.
+export const trimSilence = async (blob: Blob): Promise<Blob> => {
+  const decoded = await decodeAudio(blob);
+  const bounds = findSoundBounds(decoded);
+  if (!bounds || decoded.duration - (bounds.endSec - bounds.startSec) < MIN_TRIM_SEC) return blob;
+  return encodeWav(await toMono(sliceAudioBuffer(decoded, bounds.startSec, bounds.endSec)));
+};
+
+// Builds the multipart body for /api/analyze, preprocessing the audio when requested.
+// Formats the browser can't decode, and compressed files the WAV would be larger than,
+// are sent untouched.
+export const buildAnalysisForm = async (audioBlob: Blob, preprocess: boolean): Promise<FormData> => {
+  const formData = new FormData();
+  if (preprocess) {
+    try {
+      const wav = await preprocessAudio(audioBlob);
+      if (wav.size < audioBlob.size) {
+        formData.append("audio", wav, "audio.wav");
+        return formData;
+      }
+    } catch (err) {
+      console.warn("Could not preprocess audio, uploading the original:", err);
+    }
+  }
+  formData.append("audio", audioBlob);
+  return formData;
+};
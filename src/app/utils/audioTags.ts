@@ -0,0 +1,312 @@
+// Embedded metadata of uploaded files: ID3 (MP3), Vorbis comments (FLAC/OGG) and iTunes atoms (M4A).
+// Only the parts of the file that hold tags are read, so large tracks stay cheap.
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: string;
+  cover?: Blob;
+}
+
+// Upper bound for the head of an OGG file, where the comment header (with any cover) lives.
+const OGG_HEAD_BYTES = 16 * 1024 * 1024;
+
+const readBytes = async (blob: Blob, start: number, end: number) =>
+  new Uint8Array(await blob.slice(start, end).arrayBuffer());
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const decodeText = (bytes: Uint8Array, encoding = "utf-8") =>
+  new TextDecoder(encoding).decode(bytes).replace(/\0+$/, "").trim();
+
+const be32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const le32 = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const syncsafe32 = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+// Drops empty values so callers can fall back with `??`.
+const compact = (tags: AudioTags): AudioTags =>
+  Object.fromEntries(Object.entries(tags).filter(([, value]) => value !== undefined && value !== "")) as AudioTags;
+
+// ---- ID3v2 / ID3v1 ----
+
+const id3Encodings = ["latin1", "utf-16le", "utf-16be", "utf-8"];
+
+// Length of a null terminator for the given ID3 text encoding, and where the next one starts.
+const id3TerminatorEnd = (bytes: Uint8Array, start: number, encoding: number) => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return { end: i, next: i + (wide ? 2 : 1) };
+  }
+  return { end: bytes.length, next: bytes.length };
+};
+
+const id3Text = (frame: Uint8Array) => {
+  // Encoding 1 is UTF-16 with a byte order mark, which may be big-endian.
+  const bigEndian = frame[0] === 1 && frame[1] === 0xfe && frame[2] === 0xff;
+  return decodeText(frame.subarray(bigEndian ? 3 : 1), bigEndian ? "utf-16be" : (id3Encodings[frame[0]] ?? "latin1"));
+};
+
+const id3Picture = (frame: Uint8Array, legacy: boolean): Blob => {
+  const encoding = frame[0];
+  let mime: string;
+  let offset: number;
+  if (legacy) {
+    // ID3v2.2 PIC: three-letter image format instead of a MIME type.
+    mime = `image/${ascii(frame, 1, 3).toLowerCase().replace("jpg", "jpeg")}`;
+    offset = 4;
+  } else {
+    const mimeEnd = id3TerminatorEnd(frame, 1, 0);
+    mime = ascii(frame, 1, mimeEnd.end - 1) || "image/jpeg";
+    offset = mimeEnd.next;
+  }
+  // Skip the picture type byte and the description.
+  const description = id3TerminatorEnd(frame, offset + 1, encoding);
+  return new Blob([frame.slice(description.next)], { type: mime });
+};
+
+const readId3v2 = async (blob: Blob, header: Uint8Array): Promise<AudioTags> => {
+  const version = header[3];
+  const size = syncsafe32(header, 6);
+  const bytes = await readBytes(blob, 10, 10 + size);
+  const legacy = version === 2;
+  const idLength = legacy ? 3 : 4;
+  const headerLength = legacy ? 6 : 10;
+  let offset = 0;
+  if (!legacy && header[5] & 0x40) {
+    // Extended header: v2.4 counts its own size field, v2.3 doesn't.
+    offset = version === 4 ? syncsafe32(bytes, 0) : be32(bytes, 0) + 4;
+  }
+
+  const frames: Record<string, Uint8Array> = {};
+  while (offset + headerLength <= bytes.length && bytes[offset] !== 0) {
+    const id = ascii(bytes, offset, idLength);
+    const frameSize = legacy
+      ? (bytes[offset + 3] << 16) | (bytes[offset + 4] << 8) | bytes[offset + 5]
+      : version === 4
+        ? syncsafe32(bytes, offset + 4)
+        : be32(bytes, offset + 4);
+    const start = offset + headerLength;
+    if (frameSize <= 0 || start + frameSize > bytes.length) break;
+    frames[id] ??= bytes.subarray(start, start + frameSize);
+    offset = start + frameSize;
+  }
+
+  const text = (...ids: string[]) => {
+    const id = ids.find((candidate) => frames[candidate]);
+    return id ? id3Text(frames[id]) : undefined;
+  };
+  const picture = frames[legacy ? "PIC" : "APIC"];
+  return {
+    title: text("TIT2", "TT2"),
+    artist: text("TPE1", "TP1", "TPE2", "TP2"),
+    album: text("TALB", "TAL"),
+    year: text("TDRC", "TYER", "TYE")?.slice(0, 4),
+    cover: picture ? id3Picture(picture, legacy) : undefined,
+  };
+};
+
+// ID3v1 is a fixed 128-byte block at the end of older MP3s.
+const readId3v1 = async (blob: Blob): Promise<AudioTags> => {
+  if (blob.size < 128) return {};
+  const bytes = await readBytes(blob, blob.size - 128, blob.size);
+  if (ascii(bytes, 0, 3) !== "TAG") return {};
+  const field = (start: number, length: number) => decodeText(bytes.subarray(start, start + length), "latin1");
+  return { title: field(3, 30), artist: field(33, 30), album: field(63, 30), year: field(93, 4) };
+};
+
+// ---- Vorbis comments (FLAC, OGG Vorbis, Opus) ----
+
+// FLAC PICTURE block layout, also used base64-encoded in METADATA_BLOCK_PICTURE comments.
+const parseFlacPicture = (bytes: Uint8Array): Blob => {
+  let offset = 4;
+  const mimeLength = be32(bytes, offset);
+  const mime = ascii(bytes, offset + 4, mimeLength);
+  offset += 4 + mimeLength;
+  offset += 4 + be32(bytes, offset);
+  // Width, height, color depth and palette size.
+  offset += 16;
+  const dataLength = be32(bytes, offset);
+  return new Blob([bytes.slice(offset + 4, offset + 4 + dataLength)], { type: mime || "image/jpeg" });
+};
+
+const parseVorbisComment = (bytes: Uint8Array): AudioTags => {
+  let offset = 4 + le32(bytes, 0);
+  const count = le32(bytes, offset);
+  offset += 4;
+  const fields: Record<string, string> = {};
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = le32(bytes, offset);
+    const comment = decodeText(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+    const separator = comment.indexOf("=");
+    if (separator <= 0) continue;
+    const key = comment.slice(0, separator).toUpperCase();
+    fields[key] ??= comment.slice(separator + 1);
+  }
+  const picture = fields.METADATA_BLOCK_PICTURE;
+  return {
+    title: fields.TITLE,
+    artist: fields.ARTIST ?? fields.ALBUMARTIST,
+    album: fields.ALBUM,
+    year: fields.DATE?.slice(0, 4) ?? fields.YEAR,
+    cover: picture ? parseFlacPicture(Uint8Array.from(atob(picture), (c) => c.charCodeAt(0))) : undefined,
+  };
+};
+
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+
+const readFlac = async (blob: Blob): Promise<AudioTags> => {
+  let tags: AudioTags = {};
+  let cover: Blob | undefined;
+  let offset = 4;
+  let last = false;
+  while (!last && offset + 4 <= blob.size) {
+    const header = await readBytes(blob, offset, offset + 4);
+    last = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    if (type === FLAC_VORBIS_COMMENT) {
+      tags = parseVorbisComment(await readBytes(blob, offset + 4, offset + 4 + length));
+    } else if (type === FLAC_PICTURE && !cover) {
+      cover = parseFlacPicture(await readBytes(blob, offset + 4, offset + 4 + length));
+    }
+    offset += 4 + length;
+  }
+  return { ...tags, cover: tags.cover ?? cover };
+};
+
+// Reassembles the second logical packet of the first stream, which holds the comment header.
+const readOgg = async (blob: Blob): Promise<AudioTags> => {
+  const bytes = await readBytes(blob, 0, OGG_HEAD_BYTES);
+  const packets: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let offset = 0;
+  while (packets.length < 2 && offset + 27 <= bytes.length && ascii(bytes, offset, 4) === "OggS") {
+    const segmentCount = bytes[offset + 26];
+    let dataOffset = offset + 27 + segmentCount;
+    for (let i = 0; i < segmentCount; i++) {
+      const lacing = bytes[offset + 27 + i];
+      current.push(bytes.subarray(dataOffset, dataOffset + lacing));
+      dataOffset += lacing;
+      // A lacing value under 255 ends the packet.
+      if (lacing < 255) {
+        const packet = new Uint8Array(current.reduce((sum, part) => sum + part.length, 0));
+        let position = 0;
+        for (const part of current) {
+          packet.set(part, position);
+          position += part.length;
+        }
+        packets.push(packet);
+        current = [];
+      }
+    }
+    offset = dataOffset;
+  }
+  const comment = packets[1];
+  if (!comment) return {};
+  if (ascii(comment, 0, 7) === "\x03vorbis") return parseVorbisComment(comment.subarray(7));
+  if (ascii(comment, 0, 8) === "OpusTags") return parseVorbisComment(comment.subarray(8));
+  return {};
+};
+
+// ---- MP4 / M4A ----
+
+interface Atom {
+  type: string;
+  start: number;
+  end: number;
+}
+
+const childAtoms = (bytes: Uint8Array, start: number, end: number): Atom[] => {
+  const atoms: Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const size = be32(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (size < 8 || offset + size > end) break;
+    atoms.push({ type, start: offset + 8, end: offset + size });
+    offset += size;
+  }
+  return atoms;
+};
+
+// The `moov` atom may sit at either end of the file, so top-level atoms are walked by header only.
+const findMoov = async (blob: Blob): Promise<Uint8Array | null> => {
+  let offset = 0;
+  while (offset + 8 <= blob.size) {
+    const header = await readBytes(blob, offset, offset + 16);
+    let size = be32(header, 0);
+    const type = ascii(header, 4, 4);
+    let headerLength = 8;
+    if (size === 1) {
+      // 64-bit size; the high word is never set for files a browser can load.
+      size = be32(header, 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = blob.size - offset;
+    }
+    if (size < headerLength) return null;
+    if (type === "moov") return readBytes(blob, offset + headerLength, offset + size);
+    offset += size;
+  }
+  return null;
+};
+
+const MP4_IMAGE_TYPES: Record<number, string> = { 13: "image/jpeg", 14: "image/png" };
+
+const readMp4 = async (blob: Blob): Promise<AudioTags> => {
+  const moov = await findMoov(blob);
+  if (!moov) return {};
+  const find = (atoms: Atom[], type: string) => atoms.find((atom) => atom.type === type);
+  const udta = find(childAtoms(moov, 0, moov.length), "udta");
+  const meta = udta && find(childAtoms(moov, udta.start, udta.end), "meta");
+  // `meta` is a full box: skip its version and flags.
+  const ilst = meta && find(childAtoms(moov, meta.start + 4, meta.end), "ilst");
+  if (!ilst) return {};
+
+  const items = childAtoms(moov, ilst.start, ilst.end);
+  const data = (type: string) => {
+    const item = find(items, type);
+    const atom = item && find(childAtoms(moov, item.start, item.end), "data");
+    // Data atoms start with a 4-byte type indicator and a 4-byte locale.
+    return atom && { kind: be32(moov, atom.start), value: moov.subarray(atom.start + 8, atom.end) };
+  };
+  const text = (type: string) => {
+    const value = data(type)?.value;
+    return value ? decodeText(value) : undefined;
+  };
+  const cover = data("covr");
+  return {
+    title: text("\xa9nam"),
+    artist: text("\xa9ART") ?? text("aART"),
+    album: text("\xa9alb"),
+    year: text("\xa9day")?.slice(0, 4),
+    cover: cover ? new Blob([cover.value.slice()], { type: MP4_IMAGE_TYPES[cover.kind] ?? "image/jpeg" }) : undefined,
+  };
+};
+
+// Reads whatever tags the file carries; files in unknown formats or with broken tags yield `{}`.
+export const readAudioTags = async (blob: Blob): Promise<AudioTags> => {
+  try {
+    const head = await readBytes(blob, 0, 12);
+    if (ascii(head, 0, 3) === "ID3") {
+      const tags = compact(await readId3v2(blob, head));
+      return { ...compact(await readId3v1(blob)), ...tags };
+    }
+    if (ascii(head, 0, 4) === "fLaC") return compact(await readFlac(blob));
+    if (ascii(head, 0, 4) === "OggS") return compact(await readOgg(blob));
+    if (ascii(head, 4, 4) === "ftyp") return compact(await readMp4(blob));
+    return compact(await readId3v1(blob));
+  } catch (err) {
+    console.warn("Could not read audio tags:", err);
+    return {};
+  }
+};
@@ -0,0 +1,84 @@
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import { computeAverages } from "@/app/utils/sentimentHelpers";
+
+export interface AnalysisResult {
+  songName: string;
+  artistName: string;
+  genre: string | null;
+  segments: ServerSegment[];
+}
+
+export const segmentsToCsv = (segments: ServerSegment[]): string => {
+  const rows = segments.map((seg) => [seg.timeSec, seg.valence, seg.arousal, seg.dominance].join(","));
+  return ["timeSec,valence,arousal,dominance", ...rows].join("\n") + "\n";
+};
+
+export const resultToJson = (result: AnalysisResult): string =>
+  JSON.stringify(
+    {
+      songName: result.songName,
+      artistName: result.artistName,
+      genre: result.genre,
+      averages: computeAverages(result.segments),
+      segments: result.segments,
+      exportedAt: new Date().toISOString(),
+    },
+    null,
+    2
+  );
+
+// Safe base name for downloaded files, e.g. "My Song.mp3" -> "my-song-mp3".
+export const exportFileBase = (songName: string): string =>
+  songName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "analysis";
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Standalone SVG markup for an on-screen chart, sized to its rendered box.
+export const serializeSvg = (svg: SVGSVGElement): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const { width, height } = svg.getBoundingClientRect();
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(Math.round(width)));
+  clone.setAttribute("height", String(Math.round(height)));
+  return new XMLSerializer().serializeToString(clone);
+};
+
+export const svgToPng = (svg: SVGSVGElement, scale = 2): Promise<Blob> => {
+  const { width, height } = svg.getBoundingClientRect();
+  const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: "image/svg+xml" }));
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext("2d");
+      URL.revokeObjectURL(url);
+      if (!ctx) {
+        reject(new Error("Canvas is not supported"));
+        return;
+      }
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode PNG"))), "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render chart image"));
+    };
+    image.src = url;
+  });
+};
@@ -0,0 +1,187 @@
+import type { ElementType } from "react";
+import { FaMusic, FaDrum, FaHeadphones, FaGuitar, FaMicrophone, FaCompactDisc } from "react-icons/fa";
+import { GiViolin, GiSaxophone, GiPalmTree, GiBanjo } from "react-icons/gi";
+
+// Display taxonomy for genre labels coming from the analysis backend. Labels are matched on
+// their normalized form (case, spaces and punctuation ignored) against names and aliases, so
+// "Hip-Hop", "hiphop" and "rap" all resolve to the same entry.
+
+export interface GenreNode {
+  id: string;
+  label: string;
+  icon: ElementType;
+  aliases: string[];
+  subgenres?: Omit<GenreNode, "subgenres">[];
+}
+
+export interface NormalizedGenre {
+  genre: GenreNode;
+  subgenre?: Omit<GenreNode, "subgenres">;
+  // What to show: "Genre", "Genre › Subgenre", or the raw label when nothing matched.
+  label: string;
+  icon: ElementType;
+}
+
+export const genreTaxonomy: GenreNode[] = [
+  {
+    id: "pop",
+    label: "Pop",
+    icon: FaMusic,
+    aliases: [],
+    subgenres: [
+      { id: "synthpop", label: "Synth-pop", icon: FaMusic, aliases: ["electropop"] },
+      { id: "kpop", label: "K-pop", icon: FaMusic, aliases: [] },
+      { id: "indiepop", label: "Indie pop", icon: FaMusic, aliases: [] },
+      { id: "dancepop", label: "Dance pop", icon: FaMusic, aliases: [] },
+    ],
+  },
+  {
+    id: "rock",
+    label: "Rock",
+    icon: FaGuitar,
+    aliases: ["rocknroll", "rockandroll"],
+    subgenres: [
+      { id: "indierock", label: "Indie rock", icon: FaGuitar, aliases: ["indie"] },
+      { id: "alternative", label: "Alternative", icon: FaGuitar, aliases: ["alternativerock", "altrock", "grunge"] },
+      { id: "hardrock", label: "Hard rock", icon: FaGuitar, aliases: [] },
+      { id: "punk", label: "Punk", icon: FaDrum, aliases: ["punkrock", "poppunk", "hardcore"] },
+    ],
+  },
+  {
+    id: "metal",
+    label: "Metal",
+    icon: FaDrum,
+    aliases: ["heavymetal"],
+    subgenres: [
+      { id: "deathmetal", label: "Death metal", icon: FaDrum, aliases: [] },
+      { id: "blackmetal", label: "Black metal", icon: FaDrum, aliases: [] },
+      { id: "thrashmetal", label: "Thrash metal", icon: FaDrum, aliases: ["thrash"] },
+    ],
+  },
+  {
+    id: "hiphop",
+    label: "Hip-Hop",
+    icon: FaMicrophone,
+    aliases: ["rap"],
+    subgenres: [
+      { id: "trap", label: "Trap", icon: FaMicrophone, aliases: [] },
+      { id: "boombap", label: "Boom bap", icon: FaMicrophone, aliases: [] },
+    ],
+  },
+  {
+    id: "electronic",
+    label: "Electronic",
+    icon: FaHeadphones,
+    aliases: ["edm", "electronica", "dance", "electro"],
+    subgenres: [
+      { id: "house", label: "House", icon: FaHeadphones, aliases: ["deephouse"] },
+      { id: "techno", label: "Techno", icon: FaHeadphones, aliases: [] },
+      { id: "dnb", label: "Drum and bass", icon: FaHeadphones, aliases: ["drumnbass", "drumandbass"] },
+      { id: "dubstep", label: "Dubstep", icon: FaHeadphones, aliases: [] },
+      { id: "ambient", label: "Ambient", icon: FaHeadphones, aliases: ["chillout"] },
+    ],
+  },
+  {
+    id: "classical",
+    label: "Classical",
+    icon: GiViolin,
+    aliases: ["orchestral"],
+    subgenres: [
+      { id: "baroque", label: "Baroque", icon: GiViolin, aliases: [] },
+      { id: "opera", label: "Opera", icon: GiViolin, aliases: [] },
+      { id: "soundtrack", label: "Soundtrack", icon: GiViolin, aliases: ["score", "filmscore"] },
+    ],
+  },
+  {
+    id: "jazz",
+    label: "Jazz",
+    icon: GiSaxophone,
+    aliases: [],
+    subgenres: [
+      { id: "bebop", label: "Bebop", icon: GiSaxophone, aliases: [] },
+      { id: "swing", label: "Swing", icon: GiSaxophone, aliases: ["bigband"] },
+      { id: "fusion", label: "Fusion", icon: GiSaxophone, aliases: ["jazzfusion"] },
+    ],
+  },
+  {
+    id: "rnb",
+    label: "R&B",
+    icon: FaMicrophone,
+    aliases: ["rhythmandblues"],
+    subgenres: [
+      { id: "soul", label: "Soul", icon: FaMicrophone, aliases: ["neosoul"] },
+      { id: "funk", label: "Funk", icon: FaMicrophone, aliases: [] },
+    ],
+  },
+  { id: "blues", label: "Blues", icon: FaGuitar, aliases: [] },
+  {
+    id: "country",
+    label: "Country",
+    icon: GiBanjo,
+    aliases: [],
+    subgenres: [{ id: "bluegrass", label: "Bluegrass", icon: GiBanjo, aliases: [] }],
+  },
+  {
+    id: "folk",
+    label: "Folk",
+    icon: FaGuitar,
+    aliases: ["acoustic", "singersongwriter"],
+  },
+  {
+    id: "reggae",
+    label: "Reggae",
+    icon: GiPalmTree,
+    aliases: [],
+    subgenres: [
+      { id: "ska", label: "Ska", icon: GiPalmTree, aliases: [] },
+      { id: "dub", label: "Dub", icon: GiPalmTree, aliases: [] },
+    ],
+  },
+  {
+    id: "latin",
+    label: "Latin",
+    icon: FaCompactDisc,
+    aliases: [],
+    subgenres: [
+      { id: "reggaeton", label: "Reggaeton", icon: FaCompactDisc, aliases: [] },
+      { id: "salsa", label: "Salsa", icon: FaCompactDisc, aliases: [] },
+    ],
+  },
+];
+
+// "Hip-Hop" -> "hiphop", "R&B" -> "rb"; "&" and "'n'" spellings are folded into "and".
+const normalizeKey = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/&|'n'|\bn\b/g, "and")
+    .replace(/[^a-z0-9]/g, "");
+
+// Every name and alias, normalized, pointing at its place in the taxonomy.
+const lookup = new Map<string, { genre: GenreNode; subgenre?: Omit<GenreNode, "subgenres"> }>();
+for (const genre of genreTaxonomy) {
+  for (const subgenre of genre.subgenres ?? []) {
+    for (const key of [subgenre.id, subgenre.label, ...subgenre.aliases]) lookup.set(normalizeKey(key), { genre, subgenre });
+  }
+  for (const key of [genre.id, genre.label, ...genre.aliases]) lookup.set(normalizeKey(key), { genre });
+}
+
+// Models often emit hierarchical labels such as "Electronic---House" or "Rock/Punk".
+const LABEL_SEPARATORS = /---|\/|>|:|\|/;
+
+// Maps a backend label onto the taxonomy, preferring the most specific part that matches.
+export const normalizeGenre = (label: string): NormalizedGenre => {
+  const parts = [label, ...label.split(LABEL_SEPARATORS).reverse()].map(normalizeKey).filter(Boolean);
+  for (const key of parts) {
+    const match = lookup.get(key);
+    if (match) {
+      const { genre, subgenre } = match;
+      return {
+        genre,
+        subgenre,
+        label: subgenre ? `${genre.label} › ${subgenre.label}` : genre.label,
+        icon: subgenre?.icon ?? genre.icon,
+      };
+    }
+  }
+  return { genre: { id: normalizeKey(label), label, icon: FaMusic, aliases: [] }, label, icon: FaMusic };
+};
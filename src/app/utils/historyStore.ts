@@ -0,0 +1,81 @@
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import type { GenreScore } from "@/app/utils/analysisStream";
+
+// Completed analyses, kept in the browser's IndexedDB so they survive reloads and resets.
+
+export interface HistoryEntry {
+  id: string;
+  songName: string;
+  artistName: string;
+  serverSegments: ServerSegment[];
+  predictedGenre: string | null;
+  topGenres?: GenreScore[];
+  createdAt: number;
+  audio?: Blob;
+}
+
+const DB_NAME = "music-sentiment";
+const DB_VERSION = 1;
+const STORE_NAME = "analyses";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T,>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await runRequest("readwrite", (store) => store.put(entry));
+};
+
+// Newest first.
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await runRequest<HistoryEntry[]>("readonly", (store) => store.index("createdAt").getAll());
+  return entries.reverse();
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await runRequest("readwrite", (store) => store.delete(id));
+};
+
+// Origin-wide storage usage in bytes, or null where the browser doesn't report it.
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+};
+
+const SAVE_AUDIO_KEY = "history.saveAudio";
+
+// Whether new entries keep their audio; defaults to on.
+export const getSaveAudioPreference = (): boolean => localStorage.getItem(SAVE_AUDIO_KEY) !== "false";
+
+export const setSaveAudioPreference = (enabled: boolean) => {
+  localStorage.setItem(SAVE_AUDIO_KEY, String(enabled));
+};
@@ -0,0 +1,117 @@
+// Input level measurements for recordings, in dBFS (0 = full scale), and a summary of how
+// usable a recording's levels were.
+
+export const MIN_DB = -90;
+// Samples this close to full scale count as clipped.
+const CLIP_AMPLITUDE = 0.99;
+// Frames quieter than this (RMS) count as silence.
+export const SILENCE_DB = -50;
+// Warn once the input has been silent this long.
+export const SILENCE_WARNING_SEC = 3;
+// Average speech or music level below this is too quiet to analyze well.
+const LOW_LEVEL_DB = -35;
+
+export interface LevelFrame {
+  peakDb: number;
+  rmsDb: number;
+  clipped: boolean;
+}
+
+export type QualityVerdict = "good" | "fair" | "poor";
+
+export interface InputQualityReport {
+  peakDb: number;
+  // Average level over the non-silent part of the recording.
+  averageRmsDb: number;
+  clipCount: number;
+  silentPercent: number;
+  longestSilenceSec: number;
+  issues: string[];
+  verdict: QualityVerdict;
+}
+
+export const amplitudeToDb = (amplitude: number) => (amplitude > 0 ? Math.max(MIN_DB, 20 * Math.log10(amplitude)) : MIN_DB);
+
+export const measureFrame = (samples: Float32Array): LevelFrame => {
+  let peak = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const amplitude = Math.abs(samples[i]);
+    if (amplitude > peak) peak = amplitude;
+    sumSquares += samples[i] * samples[i];
+  }
+  const rms = samples.length ? Math.sqrt(sumSquares / samples.length) : 0;
+  return { peakDb: amplitudeToDb(peak), rmsDb: amplitudeToDb(rms), clipped: peak >= CLIP_AMPLITUDE };
+};
+
+// Accumulates frames as they are measured and summarizes them on request.
+export const createQualityTracker = () => {
+  let totalSec = 0;
+  let silentSec = 0;
+  let currentSilenceSec = 0;
+  let longestSilenceSec = 0;
+  let peakDb = MIN_DB;
+  // Energy-weighted sum over loud frames, so the average is a true RMS rather than a mean of dB values.
+  let loudEnergy = 0;
+  let loudSec = 0;
+  let clipCount = 0;
+  let wasClipped = false;
+
+  const add = (frame: LevelFrame, durationSec: number) => {
+    totalSec += durationSec;
+    peakDb = Math.max(peakDb, frame.peakDb);
+    // Count each run of clipped frames as one clip.
+    if (frame.clipped && !wasClipped) clipCount++;
+    wasClipped = frame.clipped;
+
+    if (frame.rmsDb < SILENCE_DB) {
+      silentSec += durationSec;
+      currentSilenceSec += durationSec;
+      longestSilenceSec = Math.max(longestSilenceSec, currentSilenceSec);
+    } else {
+      currentSilenceSec = 0;
+      loudEnergy += 10 ** (frame.rmsDb / 10) * durationSec;
+      loudSec += durationSec;
+    }
+  };
+
+  const report = (): InputQualityReport => {
+    const averageRmsDb = loudSec > 0 ? amplitudeToDb(Math.sqrt(loudEnergy / loudSec)) : MIN_DB;
+    const silentPercent = totalSec > 0 ? (silentSec / totalSec) * 100 : 100;
+    const issues: string[] = [];
+    let problems = 0;
+    if (loudSec === 0) {
+      issues.push("No signal was recorded.");
+      problems += 2;
+    } else if (averageRmsDb < LOW_LEVEL_DB) {
+      issues.push("The input level is low.");
+      problems++;
+    }
+    if (clipCount > 0) {
+      issues.push(`The input clipped ${clipCount} time${clipCount === 1 ? "" : "s"}.`);
+      problems += clipCount > 5 ? 2 : 1;
+    }
+    if (loudSec > 0 && silentPercent > 50) {
+      issues.push(`${Math.round(silentPercent)}% of the recording is silent.`);
+      problems++;
+    } else if (longestSilenceSec >= SILENCE_WARNING_SEC) {
+      issues.push(`Contains ${Math.round(longestSilenceSec)} s of silence.`);
+    }
+    return {
+      peakDb,
+      averageRmsDb,
+      clipCount,
+      silentPercent,
+      longestSilenceSec,
+      issues,
+      verdict: problems === 0 ? "good" : problems === 1 ? "fair" : "poor",
+    };
+  };
+
+  // Current silent stretch, for live warnings.
+  const currentSilence = () => currentSilenceSec;
+
+  return { add, report, currentSilence };
+};
+
+export type QualityTracker = ReturnType<typeof createQualityTracker>;
@@ -0,0 +1,130 @@
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import { analyzeAudio, isCancelled } from "@/app/utils/analysisClient";
+import { AnalysisError } from "@/app/utils/analysisErrors";
+import type { GenreScore } from "@/app/utils/analysisStream";
+import { encodeWav, toMono } from "@/app/utils/audioPreprocess";
+
+// Live analysis of a running recording: every `hopSec` the latest `windowSec` of audio is
+// sent to the analyzer, and segments that start after the last one already reported are
+// passed on with their time in the recording.
+
+interface LiveAnalysisOptions {
+  hopSec?: number;
+  windowSec?: number;
+  onSegment: (segment: ServerSegment) => void;
+  onGenre: (genre: string, topGenres?: GenreScore[]) => void;
+  onError?: (error: AnalysisError) => void;
+}
+
+export interface LiveAnalysis {
+  // Stops capturing and aborts any window still being analyzed.
+  stop: () => Promise<void>;
+}
+
+const CAPTURE_PROCESSOR = "live-analysis-capture";
+
+// Forwards every render quantum, mixed down to mono, to the main thread.
+const captureProcessorSource = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const input = inputs[0];
+    if (input && input.length > 0) {
+      const mixed = new Float32Array(input[0].length);
+      for (const channel of input) {
+        for (let i = 0; i < channel.length; i++) mixed[i] += channel[i] / input.length;
+      }
+      this.port.postMessage(mixed, [mixed.buffer]);
+    }
+    return true;
+  }
+}
+registerProcessor("${CAPTURE_PROCESSOR}", CaptureProcessor);
+`;
+
+export const startLiveAnalysis = async (
+  stream: MediaStream,
+  { hopSec = 3, windowSec = 6, onSegment, onGenre, onError }: LiveAnalysisOptions
+): Promise<LiveAnalysis> => {
+  const context = new AudioContext();
+  const moduleUrl = URL.createObjectURL(new Blob([captureProcessorSource], { type: "application/javascript" }));
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const capture = new AudioWorkletNode(context, CAPTURE_PROCESSOR);
+  // A silent sink keeps the capture node pulled by the graph without playing the mic back.
+  const sink = context.createGain();
+  sink.gain.value = 0;
+  source.connect(capture).connect(sink).connect(context.destination);
+
+  // Ring buffer holding the most recent window of samples.
+  const ring = new Float32Array(Math.ceil(windowSec * context.sampleRate));
+  let totalSamples = 0;
+  capture.port.onmessage = (e: MessageEvent<Float32Array>) => {
+    const chunk = e.data;
+    for (let i = 0; i < chunk.length; i++) {
+      ring[(totalSamples + i) % ring.length] = chunk[i];
+    }
+    totalSamples += chunk.length;
+  };
+
+  const latestWindow = (): { buffer: AudioBuffer; startSec: number } => {
+    const length = Math.min(totalSamples, ring.length);
+    const samples = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      samples[i] = ring[(totalSamples - length + i) % ring.length];
+    }
+    const buffer = new AudioBuffer({ length, numberOfChannels: 1, sampleRate: context.sampleRate });
+    buffer.copyToChannel(samples, 0);
+    return { buffer, startSec: (totalSamples - length) / context.sampleRate };
+  };
+
+  let lastReportedSec = -Infinity;
+  let inFlight: AbortController | null = null;
+
+  const analyzeLatestWindow = async () => {
+    // Skip a tick rather than queueing windows behind a slow response; the next window overlaps anyway.
+    if (inFlight || totalSamples < hopSec * context.sampleRate) return;
+    const controller = new AbortController();
+    inFlight = controller;
+    try {
+      const { buffer, startSec } = latestWindow();
+      const formData = new FormData();
+      formData.append("audio", encodeWav(await toMono(buffer)), "live.wav");
+      await analyzeAudio(
+        formData,
+        {
+          onSegment: (segment) => {
+            const timeSec = startSec + segment.timeSec;
+            // Overlapping windows report the same stretch twice; keep only new ground.
+            if (timeSec < lastReportedSec + hopSec / 2) return;
+            lastReportedSec = timeSec;
+            onSegment({ ...segment, timeSec: parseFloat(timeSec.toFixed(2)) });
+          },
+          onGenre,
+        },
+        { signal: controller.signal, maxRetries: 0 }
+      );
+    } catch (err) {
+      if (!isCancelled(err)) onError?.(err instanceof AnalysisError ? err : new AnalysisError("server", String(err)));
+    } finally {
+      inFlight = null;
+    }
+  };
+
+  const interval = setInterval(analyzeLatestWindow, hopSec * 1000);
+
+  return {
+    stop: async () => {
+      clearInterval(interval);
+      inFlight?.abort();
+      capture.port.onmessage = null;
+      source.disconnect();
+      capture.disconnect();
+      await context.close();
+    },
+  };
+};
@@ -0,0 +1,40 @@
+export type MicrophoneErrorKind =
+  | "denied"
+  | "not-found"
+  | "in-use"
+  | "disconnected"
+  | "no-audio"
+  | "share-failed"
+  | "unsupported";
+
+// Error raised when the microphone, or a shared tab or screen, can't be recorded or is lost,
+// classified so the UI can explain how to recover.
+export class MicrophoneError extends Error {
+  readonly kind: MicrophoneErrorKind;
+
+  constructor(kind: MicrophoneErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "MicrophoneError";
+    this.kind = kind;
+  }
+}
+
+// Classifies a getUserMedia or MediaRecorder failure by its DOMException name.
+export const toMicrophoneError = (err: unknown): MicrophoneError => {
+  if (err instanceof MicrophoneError) return err;
+  const name = err instanceof DOMException || err instanceof Error ? err.name : "";
+  const message = err instanceof Error ? err.message : String(err);
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return new MicrophoneError("denied", message, { cause: err });
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return new MicrophoneError("not-found", message, { cause: err });
+    case "NotReadableError":
+    case "AbortError":
+      return new MicrophoneError("in-use", message, { cause: err });
+    default:
+      return new MicrophoneError("unsupported", message, { cause: err });
+  }
+};
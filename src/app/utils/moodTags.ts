@@ -0,0 +1,82 @@
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import { segmentEnds } from "@/app/utils/sentimentHelpers";
+
+// Mood tags derived from the sentiment timeline with a circumplex-style mapping: each segment
+// is placed in the valence/arousal plane and given the nearest mood, with dominance telling
+// apart moods that share a quadrant (angry vs. tense). Segments close to the center are neutral.
+
+export type MoodLabel = "Excited" | "Happy" | "Calm" | "Sad" | "Tense" | "Angry" | "Neutral";
+
+export interface TimeRange {
+  startSec: number;
+  endSec: number;
+}
+
+export interface MoodTag {
+  label: MoodLabel;
+  // Share of the analyzed time where this mood dominates, between 0 and 1.
+  strength: number;
+  ranges: TimeRange[];
+}
+
+// Tag and timeline highlight color per mood.
+export const moodColors: Record<MoodLabel, string> = {
+  Excited: "#ef4444",
+  Happy: "#eab308",
+  Calm: "#22c55e",
+  Sad: "#3b82f6",
+  Tense: "#a855f7",
+  Angry: "#b91c1c",
+  Neutral: "#6b7280",
+};
+
+const moodCenters: { label: MoodLabel; valence: number; arousal: number; dominance?: number }[] = [
+  { label: "Excited", valence: 0.75, arousal: 0.85 },
+  { label: "Happy", valence: 0.85, arousal: 0.55 },
+  { label: "Calm", valence: 0.7, arousal: 0.2 },
+  { label: "Sad", valence: 0.2, arousal: 0.25 },
+  { label: "Tense", valence: 0.25, arousal: 0.8, dominance: 0.3 },
+  { label: "Angry", valence: 0.2, arousal: 0.8, dominance: 0.75 },
+];
+
+const NEUTRAL_RADIUS = 0.08;
+const DOMINANCE_WEIGHT = 0.5;
+
+export const classifyMood = ({ valence, arousal, dominance }: ServerSegment): MoodLabel => {
+  if (Math.hypot(valence - 0.5, arousal - 0.5) < NEUTRAL_RADIUS) return "Neutral";
+  let best = moodCenters[0];
+  let bestDistance = Infinity;
+  for (const center of moodCenters) {
+    let distance = (valence - center.valence) ** 2 + (arousal - center.arousal) ** 2;
+    if (center.dominance !== undefined) distance += DOMINANCE_WEIGHT * (dominance - center.dominance) ** 2;
+    if (distance < bestDistance) {
+      best = center;
+      bestDistance = distance;
+    }
+  }
+  return best.label;
+};
+
+// Mood tags for a track, strongest first.
+export const deriveMoodTags = (segments: ServerSegment[]): MoodTag[] => {
+  if (segments.length === 0) return [];
+  const ends = segmentEnds(segments);
+  const totalDuration = ends[ends.length - 1] - segments[0].timeSec;
+  const tags = new Map<MoodLabel, MoodTag>();
+
+  segments.forEach((segment, i) => {
+    const label = classifyMood(segment);
+    const tag = tags.get(label) ?? { label, strength: 0, ranges: [] };
+    tags.set(label, tag);
+    tag.strength += (ends[i] - segment.timeSec) / (totalDuration || 1);
+    const lastRange = tag.ranges[tag.ranges.length - 1];
+    // Extend the previous range when the mood carries on from the segment before.
+    if (lastRange && lastRange.endSec === segment.timeSec) {
+      lastRange.endSec = ends[i];
+    } else {
+      tag.ranges.push({ startSec: segment.timeSec, endSec: ends[i] });
+    }
+  });
+
+  return [...tags.values()].sort((a, b) => b.strength - a.strength);
+};
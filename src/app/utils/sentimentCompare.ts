@@ -0,0 +1,111 @@
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import { SentimentDimension, sentimentDimensions, computeAverages, segmentEnds } from "@/app/utils/sentimentHelpers";
+
+// Aligning and comparing the sentiment curves of two analyzed tracks.
+
+// "absolute" compares the tracks second by second; "normalized" maps both onto 0–100% of their length.
+export type CompareAlignment = "absolute" | "normalized";
+
+export interface DimensionComparison {
+  averageA: number;
+  averageB: number;
+  delta: number;
+  // Pearson correlation of the aligned curves, null when it is undefined (too few points, flat curve).
+  correlation: number | null;
+}
+
+const GRID_POINTS = 100;
+
+// Where the track ends: the end of its last segment, not its start.
+const trackLength = (segments: ServerSegment[]) => (segments.length ? segmentEnds(segments)[segments.length - 1] : 0);
+
+// Positions of the segments on the shared x axis: seconds, or percent of the track.
+export const alignedPositions = (segments: ServerSegment[], alignment: CompareAlignment): number[] => {
+  if (alignment === "absolute") return segments.map((seg) => seg.timeSec);
+  const length = trackLength(segments);
+  return segments.map((seg) => (length > 0 ? (seg.timeSec / length) * 100 : 0));
+};
+
+// Linearly interpolated value of one dimension at an aligned position.
+const valueAt = (
+  segments: ServerSegment[],
+  positions: number[],
+  dimension: SentimentDimension,
+  position: number
+): number => {
+  if (position <= positions[0]) return segments[0][dimension];
+  for (let i = 1; i < segments.length; i++) {
+    if (position <= positions[i]) {
+      const span = positions[i] - positions[i - 1];
+      const t = span > 0 ? (position - positions[i - 1]) / span : 0;
+      return segments[i - 1][dimension] + t * (segments[i][dimension] - segments[i - 1][dimension]);
+    }
+  }
+  return segments[segments.length - 1][dimension];
+};
+
+export const pearsonCorrelation = (xs: number[], ys: number[]): number | null => {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+  const meanX = xs.slice(0, n).reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.slice(0, n).reduce((a, b) => a + b, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : null;
+};
+
+// Chart rows for overlaying both tracks: keys "a<Dimension>" / "b<Dimension>" at each aligned position.
+export const buildOverlayData = (a: ServerSegment[], b: ServerSegment[], alignment: CompareAlignment) => {
+  const rows = new Map<number, Record<string, number>>();
+  const addTrack = (segments: ServerSegment[], prefix: "a" | "b") => {
+    const positions = alignedPositions(segments, alignment);
+    segments.forEach((seg, i) => {
+      const x = parseFloat(positions[i].toFixed(2));
+      const row = rows.get(x) ?? { x };
+      row[`${prefix}Valence`] = parseFloat(seg.valence.toFixed(2));
+      row[`${prefix}Arousal`] = parseFloat(seg.arousal.toFixed(2));
+      row[`${prefix}Dominance`] = parseFloat(seg.dominance.toFixed(2));
+      rows.set(x, row);
+    });
+  };
+  addTrack(a, "a");
+  addTrack(b, "b");
+  return Array.from(rows.values()).sort((r1, r2) => r1.x - r2.x);
+};
+
+export const compareSentiment = (
+  a: ServerSegment[],
+  b: ServerSegment[],
+  alignment: CompareAlignment
+): Record<SentimentDimension, DimensionComparison> => {
+  const averagesA = computeAverages(a);
+  const averagesB = computeAverages(b);
+  // In absolute mode only the overlapping stretch of time can be correlated.
+  const end = alignment === "absolute" ? Math.min(trackLength(a), trackLength(b)) : 100;
+  const positionsA = alignedPositions(a, alignment);
+  const positionsB = alignedPositions(b, alignment);
+  const grid = Array.from({ length: GRID_POINTS }, (_, i) => (end * i) / (GRID_POINTS - 1));
+
+  const result = {} as Record<SentimentDimension, DimensionComparison>;
+  sentimentDimensions.forEach((dimension) => {
+    const canCorrelate = a.length > 1 && b.length > 1 && end > 0;
+    result[dimension] = {
+      averageA: averagesA[dimension],
+      averageB: averagesB[dimension],
+      delta: parseFloat((averagesB[dimension] - averagesA[dimension]).toFixed(2)),
+      correlation: canCorrelate
+        ? pearsonCorrelation(
+            grid.map((x) => valueAt(a, positionsA, dimension, x)),
+            grid.map((x) => valueAt(b, positionsB, dimension, x))
+          )
+        : null,
+    };
+  });
+  return result;
+};
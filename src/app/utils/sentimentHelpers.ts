@@ -45,4 +45,43 @@ export const shuffleArray = <T,>(array: T[]): T[] => {
     path += " Z";
     return path;
   };
-  
\ No newline at end of file
+  
+  export const computeAverages = (
+    segments: { valence: number; arousal: number; dominance: number }[]
+  ): { valence: number; arousal: number; dominance: number } => {
+    const total = segments.length;
+    const sum = segments.reduce(
+      (acc, seg) => {
+        acc.valence += seg.valence;
+        acc.arousal += seg.arousal;
+        acc.dominance += seg.dominance;
+        return acc;
+      },
+      { valence: 0, arousal: 0, dominance: 0 }
+    );
+    return total > 0
+      ? {
+          valence: parseFloat((sum.valence / total).toFixed(2)),
+          arousal: parseFloat((sum.arousal / total).toFixed(2)),
+          dominance: parseFloat((sum.dominance / total).toFixed(2)),
+        }
+      : { valence: 0, arousal: 0, dominance: 0 };
+  };
+
+  export type SentimentDimension = "valence" | "arousal" | "dominance";
+
+  export const sentimentDimensions: SentimentDimension[] = ["valence", "arousal", "dominance"];
+
+  // Index of the segment playing at `timeSec` (the last one starting at or before it), or -1.
+  export const segmentIndexAt = (segments: { timeSec: number }[], timeSec: number): number => {
+    let index = -1;
+    for (let i = 0; i < segments.length && segments[i].timeSec <= timeSec; i++) index = i;
+    return index;
+  };
+
+  // Each segment lasts until the next one starts; the last one is given the typical spacing.
+  export const segmentEnds = (segments: { timeSec: number }[]): number[] => {
+    const gaps = segments.slice(1).map((seg, i) => seg.timeSec - segments[i].timeSec).sort((a, b) => a - b);
+    const typicalGap = gaps.length ? gaps[Math.floor(gaps.length / 2)] : 3;
+    return segments.map((seg, i) => (i + 1 < segments.length ? segments[i + 1].timeSec : seg.timeSec + typicalGap));
+  };
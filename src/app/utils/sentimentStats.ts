@@ -0,0 +1,121 @@
+import type { ServerSegment } from "@/app/components/SpeakerWithWaves";
+import type { TimeRange } from "@/app/utils/moodTags";
+import { pearsonCorrelation } from "@/app/utils/sentimentCompare";
+import { SentimentDimension, sentimentDimensions } from "@/app/utils/sentimentHelpers";
+
+// Descriptive statistics of a sentiment timeline, over the whole track or a time range.
+
+export interface Extremum {
+  value: number;
+  timeSec: number;
+}
+
+export interface DimensionStats {
+  mean: number;
+  min: Extremum;
+  max: Extremum;
+  stdDev: number;
+  // Least-squares trend, in units per minute.
+  slopePerMin: number;
+}
+
+export interface SentimentJump {
+  fromSec: number;
+  toSec: number;
+  // Euclidean distance between the two segments in valence/arousal/dominance space.
+  magnitude: number;
+  deltas: Record<SentimentDimension, number>;
+}
+
+export type DimensionPair = `${SentimentDimension}-${SentimentDimension}`;
+
+export interface SentimentStats {
+  segmentCount: number;
+  dimensions: Record<SentimentDimension, DimensionStats>;
+  correlations: Record<DimensionPair, number | null>;
+  jumps: SentimentJump[];
+}
+
+export const dimensionPairs: [SentimentDimension, SentimentDimension][] = [
+  ["valence", "arousal"],
+  ["valence", "dominance"],
+  ["arousal", "dominance"],
+];
+
+const DEFAULT_JUMP_COUNT = 3;
+
+// Segments starting inside [startSec, endSec].
+export const segmentsInRange = (segments: ServerSegment[], range?: TimeRange | null): ServerSegment[] =>
+  range ? segments.filter((seg) => seg.timeSec >= range.startSec && seg.timeSec <= range.endSec) : segments;
+
+const describeDimension = (segments: ServerSegment[], dimension: SentimentDimension): DimensionStats => {
+  const values = segments.map((seg) => seg[dimension]);
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const variance = values.reduce((a, b) => a + (b - mean) ** 2, 0) / n;
+
+  let min: Extremum = { value: values[0], timeSec: segments[0].timeSec };
+  let max: Extremum = { ...min };
+  segments.forEach((seg) => {
+    if (seg[dimension] < min.value) min = { value: seg[dimension], timeSec: seg.timeSec };
+    if (seg[dimension] > max.value) max = { value: seg[dimension], timeSec: seg.timeSec };
+  });
+
+  const meanTime = segments.reduce((a, seg) => a + seg.timeSec, 0) / n;
+  let covariance = 0;
+  let timeVariance = 0;
+  segments.forEach((seg) => {
+    covariance += (seg.timeSec - meanTime) * (seg[dimension] - mean);
+    timeVariance += (seg.timeSec - meanTime) ** 2;
+  });
+  const slopePerSec = timeVariance > 0 ? covariance / timeVariance : 0;
+
+  return { mean, min, max, stdDev: Math.sqrt(variance), slopePerMin: slopePerSec * 60 };
+};
+
+// The largest changes between consecutive segments, biggest first.
+const biggestJumps = (segments: ServerSegment[], count: number): SentimentJump[] =>
+  segments
+    .slice(1)
+    .map((seg, i) => {
+      const prev = segments[i];
+      const deltas = {
+        valence: seg.valence - prev.valence,
+        arousal: seg.arousal - prev.arousal,
+        dominance: seg.dominance - prev.dominance,
+      };
+      return {
+        fromSec: prev.timeSec,
+        toSec: seg.timeSec,
+        magnitude: Math.hypot(deltas.valence, deltas.arousal, deltas.dominance),
+        deltas,
+      };
+    })
+    .sort((a, b) => b.magnitude - a.magnitude)
+    .slice(0, count);
+
+// Returns null when the range holds no segments.
+export const computeSentimentStats = (
+  segments: ServerSegment[],
+  range?: TimeRange | null,
+  jumpCount = DEFAULT_JUMP_COUNT
+): SentimentStats | null => {
+  const selected = segmentsInRange(segments, range);
+  if (selected.length === 0) return null;
+
+  const dimensions = Object.fromEntries(
+    sentimentDimensions.map((dimension) => [dimension, describeDimension(selected, dimension)])
+  ) as Record<SentimentDimension, DimensionStats>;
+
+  const correlations = Object.fromEntries(
+    dimensionPairs.map(([a, b]) => [
+      `${a}-${b}`,
+      pearsonCorrelation(
+        selected.map((seg) => seg[a]),
+        selected.map((seg) => seg[b])
+      ),
+    ])
+  ) as Record<DimensionPair, number | null>;
+
+  return { segmentCount: selected.length, dimensions, correlations, jumps: biggestJumps(selected, jumpCount) };
+};
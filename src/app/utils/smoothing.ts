@@ -0,0 +1,41 @@
+// Smoothing for sentiment series, applied for display only.
+
+export type SmoothingMethod = "none" | "moving-average" | "exponential";
+
+export const smoothingMethods: { value: SmoothingMethod; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "moving-average", label: "Moving average" },
+  { value: "exponential", label: "Exponential" },
+];
+
+const MOVING_AVERAGE_WINDOW = 5;
+const EXPONENTIAL_ALPHA = 0.3;
+
+// Centered moving average; the window shrinks at the edges instead of padding.
+const movingAverage = (values: number[], window: number) => {
+  const half = Math.floor(window / 2);
+  return values.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length, i + half + 1);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += values[j];
+    return sum / (to - from);
+  });
+};
+
+const exponential = (values: number[], alpha: number) => {
+  let previous = values[0];
+  return values.map((value) => (previous = alpha * value + (1 - alpha) * previous));
+};
+
+export const smoothSeries = (values: number[], method: SmoothingMethod): number[] => {
+  if (values.length === 0) return values;
+  switch (method) {
+    case "moving-average":
+      return movingAverage(values, MOVING_AVERAGE_WINDOW);
+    case "exponential":
+      return exponential(values, EXPONENTIAL_ALPHA);
+    default:
+      return values;
+  }
+};
@@ -0,0 +1,132 @@
+// Log-frequency spectrogram of a whole track, rendered once into RGBA pixels.
+
+export interface SpectrogramImage {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+interface SpectrogramOptions {
+  columns?: number;
+  rows?: number;
+  fftSize?: number;
+  minFreq?: number;
+  // Magnitudes below this many dB under the loudest bin are drawn black.
+  dynamicRangeDb?: number;
+}
+
+// In-place iterative radix-2 FFT; `re.length` must be a power of two.
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+// Dark blue -> purple -> orange -> pale yellow, indexed by intensity 0..1.
+const colorStops: [number, number, number][] = [
+  [0, 0, 4],
+  [40, 11, 84],
+  [101, 21, 110],
+  [159, 42, 99],
+  [212, 72, 66],
+  [245, 125, 21],
+  [250, 193, 39],
+  [252, 255, 164],
+];
+
+const colorAt = (t: number): [number, number, number] => {
+  const scaled = Math.min(1, Math.max(0, t)) * (colorStops.length - 1);
+  const i = Math.min(colorStops.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  const [r1, g1, b1] = colorStops[i];
+  const [r2, g2, b2] = colorStops[i + 1];
+  return [r1 + (r2 - r1) * f, g1 + (g2 - g1) * f, b1 + (b2 - b1) * f];
+};
+
+// One FFT per column keeps the cost independent of track length, so long tracks stay fast.
+export const computeSpectrogram = (
+  buffer: AudioBuffer,
+  { columns = 1200, rows = 128, fftSize = 2048, minFreq = 30, dynamicRangeDb = 80 }: SpectrogramOptions = {}
+): SpectrogramImage => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+  const nyquist = buffer.sampleRate / 2;
+  const binHz = buffer.sampleRate / fftSize;
+  const window = Float32Array.from({ length: fftSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1)));
+  // Row r (0 = top) covers a log-spaced frequency band.
+  const rowBins = Array.from({ length: rows + 1 }, (_, r) => {
+    const freq = minFreq * Math.pow(nyquist / minFreq, 1 - r / rows);
+    return Math.min(fftSize / 2 - 1, Math.max(1, Math.round(freq / binHz)));
+  });
+
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const levels = new Float32Array(columns * rows);
+  let maxDb = -Infinity;
+
+  for (let col = 0; col < columns; col++) {
+    const center = Math.floor(((col + 0.5) / columns) * buffer.length);
+    const start = center - fftSize / 2;
+    for (let i = 0; i < fftSize; i++) {
+      const idx = start + i;
+      let sample = 0;
+      if (idx >= 0 && idx < buffer.length) {
+        for (let ch = 0; ch < channels.length; ch++) sample += channels[ch][idx];
+        sample /= channels.length;
+      }
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let row = 0; row < rows; row++) {
+      const lo = Math.min(rowBins[row + 1], rowBins[row]);
+      const hi = Math.max(rowBins[row + 1], rowBins[row]);
+      let peak = 0;
+      for (let bin = lo; bin <= hi; bin++) {
+        const magnitude = re[bin] * re[bin] + im[bin] * im[bin];
+        if (magnitude > peak) peak = magnitude;
+      }
+      const db = 10 * Math.log10(peak + 1e-12);
+      levels[row * columns + col] = db;
+      if (db > maxDb) maxDb = db;
+    }
+  }
+
+  const pixels = new Uint8ClampedArray(columns * rows * 4);
+  for (let i = 0; i < levels.length; i++) {
+    const [r, g, b] = colorAt(1 + (levels[i] - maxDb) / dynamicRangeDb);
+    pixels[i * 4] = r;
+    pixels[i * 4 + 1] = g;
+    pixels[i * 4 + 2] = b;
+    pixels[i * 4 + 3] = 255;
+  }
+  return { width: columns, height: rows, pixels };
+};
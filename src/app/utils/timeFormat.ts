@@ -0,0 +1,6 @@
+// Formats seconds as m:ss, e.g. 75.4 -> "1:15".
+export const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds < 10 ? "0" : ""}${seconds}`;
+};
@@ -0,0 +1,62 @@
+// Waveform overviews: min/max peaks per bucket, drawn onto a canvas.
+
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+  duration: number;
+}
+
+// Reduces the buffer (all channels mixed) to `buckets` min/max pairs.
+export const computePeaks = (buffer: AudioBuffer, buckets: number): WaveformPeaks => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+  const min = new Float32Array(buckets);
+  const max = new Float32Array(buckets);
+  const samplesPerBucket = buffer.length / buckets;
+
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * samplesPerBucket);
+    const end = Math.max(start + 1, Math.floor((b + 1) * samplesPerBucket));
+    let lo = 0;
+    let hi = 0;
+    for (let i = start; i < end && i < buffer.length; i++) {
+      let sample = 0;
+      for (let ch = 0; ch < channels.length; ch++) sample += channels[ch][i];
+      sample /= channels.length;
+      if (sample < lo) lo = sample;
+      if (sample > hi) hi = sample;
+    }
+    min[b] = lo;
+    max[b] = hi;
+  }
+  return { min, max, duration: buffer.duration };
+};
+
+// Draws the part of the waveform between startSec and endSec across the full canvas width.
+export const drawWaveform = (
+  canvas: HTMLCanvasElement,
+  peaks: WaveformPeaks,
+  { startSec = 0, endSec = peaks.duration, color = "#6366f1" }: { startSec?: number; endSec?: number; color?: string } = {}
+) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const { width, height } = canvas;
+  const buckets = peaks.min.length;
+  const mid = height / 2;
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = color;
+  if (peaks.duration <= 0 || endSec <= startSec) return;
+
+  const bucketsPerSec = buckets / peaks.duration;
+  for (let x = 0; x < width; x++) {
+    const from = Math.floor((startSec + ((endSec - startSec) * x) / width) * bucketsPerSec);
+    const to = Math.max(from + 1, Math.floor((startSec + ((endSec - startSec) * (x + 1)) / width) * bucketsPerSec));
+    let lo = 0;
+    let hi = 0;
+    for (let b = Math.max(0, from); b < to && b < buckets; b++) {
+      if (peaks.min[b] < lo) lo = peaks.min[b];
+      if (peaks.max[b] > hi) hi = peaks.max[b];
+    }
+    const top = mid - hi * mid;
+    ctx.fillRect(x, top, 1, Math.max(1, (hi - lo) * mid));
+  }
+};